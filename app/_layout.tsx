@@ -1,15 +1,32 @@
 import { Stack } from "expo-router";
+import { useEffect } from "react";
 import { SafeAreaProvider, SafeAreaView } from "react-native-safe-area-context";
 import { DrinksProvider } from "../context/DrinksContext";
+import { LibraryProvider } from "../context/LibraryContext";
+import { ProfileProvider } from "../context/ProfileContext";
+import { SettingsProvider } from "../context/SettingsContext";
+import { configureNotifications } from "../services/notifications";
 
 export default function RootLayout() {
+  useEffect(() => {
+    configureNotifications().catch((error) => {
+      console.error("Failed to set up notifications:", error);
+    });
+  }, []);
+
   return (
-    <DrinksProvider>
-      <SafeAreaProvider>
-        <SafeAreaView style={{ flex: 1, backgroundColor: "#0f172af0" }}>
-          <Stack screenOptions={{ headerShown: false }} />
-        </SafeAreaView>
-      </SafeAreaProvider>
-    </DrinksProvider>
+    <SettingsProvider>
+      <ProfileProvider>
+        <DrinksProvider>
+          <LibraryProvider>
+            <SafeAreaProvider>
+              <SafeAreaView style={{ flex: 1, backgroundColor: "#0f172af0" }}>
+                <Stack screenOptions={{ headerShown: false }} />
+              </SafeAreaView>
+            </SafeAreaProvider>
+          </LibraryProvider>
+        </DrinksProvider>
+      </ProfileProvider>
+    </SettingsProvider>
   );
 }
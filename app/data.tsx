@@ -0,0 +1,220 @@
+import { useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import { Pressable, SafeAreaView, ScrollView, Share, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useDrinks } from '../context/DrinksContext';
+import { useProfile } from '../context/ProfileContext';
+import { useSettings } from '../context/SettingsContext';
+import { buildBackup, drinksToCsv, ImportReport, parseImport } from '../services/exportImport';
+
+const DataScreen: React.FC = () => {
+  const router = useRouter();
+  const { drinks, sessions, importData } = useDrinks();
+  const { profile } = useProfile();
+  const { unit } = useSettings();
+  const [importText, setImportText] = useState('');
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const share = async (title: string, message: string) => {
+    try {
+      await Share.share({ title, message });
+    } catch (error) {
+      console.error('Failed to share export:', error);
+    }
+  };
+
+  const exportSessionCsv = () => share('Current session', drinksToCsv(drinks, unit));
+
+  const exportHistoryCsv = () =>
+    share('Drink history', drinksToCsv([...drinks, ...sessions.flatMap(s => s.drinks)], unit));
+
+  const exportBackup = () => share('Standard Drinker backup', buildBackup(drinks, sessions, profile));
+
+  const handleImport = () => {
+    if (!importText.trim()) return;
+
+    setReport(importData(parseImport(importText)));
+    setImportText('');
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView style={styles.container}>
+        <View style={styles.header}>
+          <Pressable onPress={() => router.back()} style={styles.backButton}>
+            <Text style={styles.backButtonText}>‹ Back</Text>
+          </Pressable>
+          <Text style={styles.title}>Export & Import</Text>
+          <Text style={styles.subtitle}>YOUR DATA</Text>
+        </View>
+
+        <View style={styles.content}>
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Export</Text>
+            <Text style={styles.cardText}>
+              CSV columns: timestamp, name, volumeMl, abv, standardDrinks ({unit.label}). The JSON backup includes everything.
+            </Text>
+            <Pressable
+              onPress={exportSessionCsv}
+              disabled={drinks.length === 0}
+              style={[styles.button, drinks.length === 0 && styles.buttonDisabled]}
+            >
+              <Text style={styles.buttonText}>Current Session (CSV)</Text>
+            </Pressable>
+            <Pressable onPress={exportHistoryCsv} style={styles.button}>
+              <Text style={styles.buttonText}>All History (CSV)</Text>
+            </Pressable>
+            <Pressable onPress={exportBackup} style={styles.button}>
+              <Text style={styles.buttonText}>Full Backup (JSON)</Text>
+            </Pressable>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Import</Text>
+            <Text style={styles.cardText}>
+              Paste a CSV export, a JSON backup or a JSON list of drinks. Drinks you already have are skipped.
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={importText}
+              onChangeText={setImportText}
+              placeholder="timestamp,name,volumeMl,abv,standardDrinks"
+              placeholderTextColor="#64748b"
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <Pressable
+              onPress={handleImport}
+              disabled={!importText.trim()}
+              style={[styles.button, styles.importButton, !importText.trim() && styles.buttonDisabled]}
+            >
+              <Text style={styles.buttonText}>Import</Text>
+            </Pressable>
+
+            {report && (
+              <View style={styles.report}>
+                <Text style={styles.reportText}>
+                  Added {report.added} · Skipped {report.duplicates} duplicate{report.duplicates === 1 ? '' : 's'} · Rejected {report.rejected.length}
+                  {report.profileRestored ? ' · Profile restored' : ''}
+                </Text>
+                {report.rejected.map(r => (
+                  <Text key={`${r.line}-${r.reason}`} style={styles.rejectedText}>
+                    Line {r.line}: {r.reason}
+                  </Text>
+                ))}
+              </View>
+            )}
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#0f172a',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#0f172a',
+  },
+  header: {
+    paddingVertical: 24,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1e293b',
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    marginBottom: 12,
+  },
+  backButtonText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#64748b',
+    letterSpacing: 0.8,
+    textTransform: 'uppercase',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#14b8a6',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#94a3b8',
+    letterSpacing: 1.2,
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  card: {
+    backgroundColor: 'rgba(30, 41, 59, 0.5)',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(71, 85, 105, 0.5)',
+    gap: 8,
+  },
+  cardTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#cbd5e1',
+  },
+  cardText: {
+    fontSize: 11,
+    color: '#94a3b8',
+    lineHeight: 16,
+    marginBottom: 8,
+  },
+  button: {
+    backgroundColor: '#334155',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  importButton: {
+    backgroundColor: '#0d9488',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontWeight: '700',
+    fontSize: 13,
+  },
+  input: {
+    backgroundColor: '#0f172a',
+    color: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#334155',
+    borderRadius: 8,
+    padding: 12,
+    minHeight: 120,
+    fontSize: 11,
+    fontFamily: 'monospace',
+    textAlignVertical: 'top',
+  },
+  report: {
+    marginTop: 8,
+    gap: 4,
+  },
+  reportText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#14b8a6',
+  },
+  rejectedText: {
+    fontSize: 11,
+    color: '#f87171',
+    fontFamily: 'monospace',
+  },
+});
+
+export default DataScreen;
@@ -0,0 +1,236 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useMemo } from 'react';
+import { Alert, Pressable, SafeAreaView, ScrollView, StyleSheet, Text, View } from 'react-native';
+import DrinkGraph from '../../components/DrinkGraph';
+import { useDrinks } from '../../context/DrinksContext';
+import { useSettings } from '../../context/SettingsContext';
+import { formatBac } from '../../services/legalLimits';
+import { formatDuration, summariseSession } from '../../services/sessions';
+import { toStandardDrinks } from '../../services/standardDrinks';
+
+const SessionDetailScreen: React.FC = () => {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { sessions, deleteSession } = useDrinks();
+  const { unit, jurisdiction, limit, settings } = useSettings();
+
+  const session = sessions.find(s => s.id === id);
+  const summary = useMemo(() => (session ? summariseSession(session) : null), [session]);
+
+  const confirmDelete = () => {
+    if (!session) return;
+
+    Alert.alert('Delete Session', 'Permanently delete this session from your history?', [
+      { text: 'Cancel', onPress: () => { }, style: 'cancel' },
+      {
+        text: 'Delete',
+        onPress: () => {
+          deleteSession(session.id);
+          router.back();
+        },
+        style: 'destructive'
+      }
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView style={styles.container}>
+        <View style={styles.header}>
+          <Pressable onPress={() => router.back()} style={styles.backButton}>
+            <Text style={styles.backButtonText}>‹ History</Text>
+          </Pressable>
+          {session && (
+            <>
+              <Text style={styles.title}>
+                {new Date(session.startTime).toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'long' })}
+              </Text>
+              <Text style={styles.subtitle}>
+                {new Date(session.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                {' – '}
+                {new Date(session.endTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </Text>
+            </>
+          )}
+        </View>
+
+        <View style={styles.content}>
+          {!session || !summary ? (
+            <Text style={styles.emptyText}>This session no longer exists.</Text>
+          ) : (
+            <>
+              <View style={styles.statsRow}>
+                <View style={styles.stat}>
+                  <Text style={styles.statValue}>{toStandardDrinks(summary.totalGrams, unit).toFixed(2)}</Text>
+                  <Text style={styles.statLabel}>Total {unit.shortLabel}</Text>
+                </View>
+                <View style={styles.stat}>
+                  <Text style={styles.statValue}>{formatBac(summary.peakBac, settings.bacUnit, jurisdiction.breathRatio)}</Text>
+                  <Text style={styles.statLabel}>Peak BAC</Text>
+                </View>
+                <View style={styles.stat}>
+                  <Text style={styles.statValue}>{formatDuration(summary.durationMs)}</Text>
+                  <Text style={styles.statLabel}>Duration</Text>
+                </View>
+              </View>
+
+              <DrinkGraph
+                drinks={session.drinks}
+                firstHourBurn={session.profile.firstHourBurn}
+                subsequentHourBurn={session.profile.subsequentHourBurn}
+                absorptionMinutes={session.profile.absorptionMinutes}
+                weight={session.profile.weight}
+                gender={session.profile.gender}
+                limit={limit}
+                bacUnit={settings.bacUnit}
+                breathRatio={jurisdiction.breathRatio}
+              />
+
+              <View style={styles.drinksList}>
+                {[...session.drinks].sort((a, b) => a.timestamp - b.timestamp).map(drink => (
+                  <View key={drink.id} style={styles.drinkCard}>
+                    <View style={styles.drinkHeader}>
+                      <Text style={styles.drinkName}>{drink.name}</Text>
+                      <Text style={styles.drinkStdValue}>
+                        {toStandardDrinks(drink.alcoholGrams, unit).toFixed(1)} <Text style={styles.drinkStdUnit}>{unit.shortLabel}</Text>
+                      </Text>
+                    </View>
+                    <Text style={styles.drinkDetail}>
+                      {new Date(drink.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      {' • '}{drink.volumeMl}ml{' • '}{drink.abv}%
+                    </Text>
+                  </View>
+                ))}
+              </View>
+
+              <Pressable onPress={confirmDelete} style={styles.deleteButton}>
+                <Text style={styles.deleteButtonText}>Delete Session</Text>
+              </Pressable>
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#0f172a',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#0f172a',
+  },
+  header: {
+    paddingVertical: 24,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1e293b',
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    marginBottom: 12,
+  },
+  backButtonText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#64748b',
+    letterSpacing: 0.8,
+    textTransform: 'uppercase',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#14b8a6',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 11,
+    color: '#94a3b8',
+    fontFamily: 'monospace',
+  },
+  content: {
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 12,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  stat: {
+    flex: 1,
+    backgroundColor: '#1e293b',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#a6d6d6',
+  },
+  statLabel: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#64748b',
+    letterSpacing: 1,
+    textTransform: 'uppercase',
+    marginTop: 4,
+  },
+  drinksList: {
+    gap: 12,
+  },
+  drinkCard: {
+    backgroundColor: 'rgba(30, 41, 59, 0.4)',
+    borderWidth: 1,
+    borderColor: 'rgba(71, 85, 105, 0.5)',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  drinkHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  drinkName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#e2e8f0',
+  },
+  drinkStdValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#a6d6d6',
+  },
+  drinkStdUnit: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  drinkDetail: {
+    fontSize: 11,
+    color: '#64748b',
+    fontFamily: 'monospace',
+  },
+  deleteButton: {
+    marginTop: 24,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#f87171',
+  },
+});
+
+export default SessionDetailScreen;
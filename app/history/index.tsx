@@ -0,0 +1,196 @@
+import { useRouter } from 'expo-router';
+import React, { useMemo } from 'react';
+import { Pressable, SafeAreaView, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { useDrinks } from '../../context/DrinksContext';
+import { useSettings } from '../../context/SettingsContext';
+import { formatBac } from '../../services/legalLimits';
+import { formatDuration, summariseSession } from '../../services/sessions';
+import { toStandardDrinks } from '../../services/standardDrinks';
+
+const HistoryScreen: React.FC = () => {
+  const router = useRouter();
+  const { sessions } = useDrinks();
+  const { unit, jurisdiction, limit, settings } = useSettings();
+
+  const rows = useMemo(
+    () => sessions.map(session => ({ session, summary: summariseSession(session) })),
+    [sessions]
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView style={styles.container}>
+        <View style={styles.header}>
+          <Pressable onPress={() => router.back()} style={styles.backButton}>
+            <Text style={styles.backButtonText}>‹ Back</Text>
+          </Pressable>
+          <View style={styles.titleRow}>
+            <View>
+              <Text style={styles.title}>History</Text>
+              <Text style={styles.subtitle}>PAST SESSIONS</Text>
+            </View>
+            <Pressable onPress={() => router.push('/data')}>
+              <Text style={styles.dataButtonText}>Export / Import</Text>
+            </Pressable>
+          </View>
+        </View>
+
+        <View style={styles.content}>
+          {rows.length === 0 ? (
+            <Text style={styles.emptyText}>
+              No past sessions yet. Ending a session moves it here.
+            </Text>
+          ) : (
+            <View style={styles.sessionList}>
+              {rows.map(({ session, summary }) => (
+                <Pressable
+                  key={session.id}
+                  onPress={() => router.push({ pathname: '/history/[id]', params: { id: session.id } })}
+                  style={({ pressed }) => [styles.sessionCard, pressed && styles.sessionCardPressed]}
+                >
+                  <View style={styles.sessionInfo}>
+                    <Text style={styles.sessionDate}>
+                      {new Date(session.startTime).toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' })}
+                    </Text>
+                    <Text style={styles.sessionDetail}>
+                      {new Date(session.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      {' • '}
+                      {formatDuration(summary.durationMs)}
+                      {' • '}
+                      {session.drinks.length} {session.drinks.length === 1 ? 'drink' : 'drinks'}
+                    </Text>
+                  </View>
+                  <View style={styles.sessionStats}>
+                    <Text style={styles.sessionTotal}>
+                      {toStandardDrinks(summary.totalGrams, unit).toFixed(1)} <Text style={styles.sessionUnit}>{unit.shortLabel}</Text>
+                    </Text>
+                    <Text
+                      style={[
+                        styles.sessionPeak,
+                        { color: summary.peakBac > limit ? '#fed7aa' : '#14b8a6' }
+                      ]}
+                    >
+                      Peak {formatBac(summary.peakBac, settings.bacUnit, jurisdiction.breathRatio)}
+                    </Text>
+                  </View>
+                </Pressable>
+              ))}
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#0f172a',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#0f172a',
+  },
+  header: {
+    paddingVertical: 24,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1e293b',
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    marginBottom: 12,
+  },
+  backButtonText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#64748b',
+    letterSpacing: 0.8,
+    textTransform: 'uppercase',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+  },
+  dataButtonText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#14b8a6',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#14b8a6',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#94a3b8',
+    letterSpacing: 1.2,
+  },
+  content: {
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 12,
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  sessionList: {
+    gap: 12,
+  },
+  sessionCard: {
+    backgroundColor: 'rgba(30, 41, 59, 0.4)',
+    borderWidth: 1,
+    borderColor: 'rgba(71, 85, 105, 0.5)',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sessionCardPressed: {
+    opacity: 0.8,
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  sessionDate: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#e2e8f0',
+    marginBottom: 6,
+  },
+  sessionDetail: {
+    fontSize: 11,
+    color: '#64748b',
+    fontFamily: 'monospace',
+  },
+  sessionStats: {
+    alignItems: 'flex-end',
+    marginLeft: 12,
+  },
+  sessionTotal: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#a6d6d6',
+  },
+  sessionUnit: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  sessionPeak: {
+    fontSize: 11,
+    fontWeight: '700',
+    fontFamily: 'monospace',
+    marginTop: 4,
+  },
+});
+
+export default HistoryScreen;
@@ -1,8 +1,7 @@
+import { useRouter } from 'expo-router';
 import React, { useEffect, useMemo, useState } from 'react';
 import {
   Alert,
-  Modal,
-  Platform,
   Pressable,
   SafeAreaView,
   ScrollView,
@@ -11,35 +10,98 @@ import {
   TextInput,
   View,
 } from 'react-native';
+import AlcoholFreeTracker from '../components/AlcoholFreeTracker';
+import CocktailBuilder from '../components/CocktailBuilder';
 import DrinkGraph from '../components/DrinkGraph';
+import EditDrinkSheet from '../components/EditDrinkSheet';
+import GuidelineTracker from '../components/GuidelineTracker';
 import ManualCalculator from '../components/ManualCalculator';
+import NotificationSettings from '../components/NotificationSettings';
+import PlannedDrinkList from '../components/PlannedDrinkList';
+import ReverseCalculator from '../components/ReverseCalculator';
 import SmartInput from '../components/SmartInput';
 import { useDrinks } from '../context/DrinksContext';
-import { CalculationMode, Gender } from '../types';
+import { useProfile } from '../context/ProfileContext';
+import { useSettings } from '../context/SettingsContext';
+import { bacAt, simulateBac } from '../services/bacEngine';
+import { guidelineLimits, guidelineProgress } from '../services/guidelines';
+import { BAC_UNITS, bacUnitLabel, formatBac, JURISDICTIONS } from '../services/legalLimits';
+import { PROFILE_LIMITS } from '../services/profile';
+import { STANDARD_DRINK_UNITS, toStandardDrinks } from '../services/standardDrinks';
+import { CalculationMode, Drink, DRINK_PORTIONS, DRINKING_DURATIONS, FOOD_STATES, FoodState } from '../types';
+
+const nextFoodState = (food: FoodState): FoodState => {
+  const index = FOOD_STATES.findIndex(f => f.value === food);
+  return FOOD_STATES[(index + 1) % FOOD_STATES.length].value;
+};
+
+const foodLabel = (food: FoodState) => FOOD_STATES.find(f => f.value === food)?.label ?? food;
+
+const drinkDurationMinutes = (drink: Drink) =>
+  drink.endTime !== undefined ? Math.round((drink.endTime - drink.timestamp) / 60000) : 0;
+
+// Steps through the preset durations; anything custom starts again from "in one go"
+const nextDuration = (minutes: number) => {
+  const index = DRINKING_DURATIONS.findIndex(d => d.minutes === minutes);
+  return DRINKING_DURATIONS[(index + 1) % DRINKING_DURATIONS.length].minutes;
+};
+
+const durationLabel = (minutes: number) =>
+  DRINKING_DURATIONS.find(d => d.minutes === minutes)?.label ?? `${minutes} min`;
+
+// Steps down through the preset portions; anything custom goes back to all of it
+const nextPortion = (portion: number) => {
+  const index = DRINK_PORTIONS.findIndex(p => Math.abs(p.value - portion) < 0.001);
+  return DRINK_PORTIONS[(index + 1) % DRINK_PORTIONS.length].value;
+};
+
+const portionLabel = (portion: number) =>
+  DRINK_PORTIONS.find(p => Math.abs(p.value - portion) < 0.001)?.label ?? `${Math.round(portion * 100)}%`;
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
 
 const App: React.FC = () => {
+  const router = useRouter();
   const [mode, setMode] = useState<CalculationMode>(CalculationMode.MANUAL);
-  const { drinks, addDrink, removeDrink: removeDrinkContext, updateDrinkTime: updateDrinkTimeContext, clearSession: clearSessionContext } = useDrinks();
-  const [totalStdDrinks, setTotalStdDrinks] = useState(0);
+  const {
+    drinks,
+    addDrink,
+    removeDrink: removeDrinkContext,
+    updateDrink,
+    updateDrinkDuration,
+    updateDrinkPortion,
+    updateDrinkFood,
+    sessionFood,
+    setSessionFood,
+    endSession: endSessionContext,
+    plannedDrinks,
+    sessions,
+  } = useDrinks();
+  const [totalGrams, setTotalGrams] = useState(0);
   const [currentTime, setCurrentTime] = useState(Date.now());
 
   // Settings State
   const [showSettings, setShowSettings] = useState(false);
-  const [firstHourBurn, setFirstHourBurn] = useState(2);
-  const [subsequentHourBurn, setSubsequentHourBurn] = useState(1);
-  const [weight, setWeight] = useState(80);
-  const [gender, setGender] = useState<Gender>('male');
+  const { profile, updateProfile } = useProfile();
+  const { firstHourBurn, subsequentHourBurn, absorptionMinutes, weight, gender } = profile;
+  const [weightText, setWeightText] = useState(weight.toString());
+  const { settings, updateSettings, unit, jurisdiction, limit } = useSettings();
 
   // Edit Mode State
   const [editingDrinkId, setEditingDrinkId] = useState<string | null>(null);
-  const [editingTimeText, setEditingTimeText] = useState<string>('');
-  const [editingDate, setEditingDate] = useState<Date | null>(null);
-  const [showDatePicker, setShowDatePicker] = useState(false);
+  const editingDrink = drinks.find(d => d.id === editingDrinkId) ?? null;
+
+  // Follow the saved weight, e.g. once the profile has loaded
+  useEffect(() => {
+    setWeightText(weight.toString());
+  }, [weight]);
 
   // Update totals when drinks change
   useEffect(() => {
-    const total = drinks.reduce((sum, drink) => sum + drink.standardDrinks, 0);
-    setTotalStdDrinks(total);
+    const total = drinks.reduce((sum, drink) => sum + drink.alcoholGrams, 0);
+    setTotalGrams(total);
   }, [drinks]);
 
   // Update current time every minute for session duration calculation
@@ -62,41 +124,49 @@ const App: React.FC = () => {
     return { hours, mins, startTime };
   }, [drinks, currentTime]);
 
+  const simulation = useMemo(
+    () => simulateBac(drinks, profile, { limit }),
+    [drinks, profile, limit]
+  );
+  const currentBac = bacAt(simulation, currentTime);
+
+  // Guidelines count everything on record, not just this session
+  const allDrinks = useMemo(
+    () => [...drinks, ...sessions.flatMap(s => s.drinks)],
+    [drinks, sessions]
+  );
+  const guideline = guidelineLimits(settings.guidelineId, gender, settings.customGuideline);
+  const guidelineStatus = useMemo(
+    () => guidelineProgress(allDrinks, guideline, currentTime),
+    [allDrinks, guideline, currentTime]
+  );
+  const isOverGuideline = guidelineStatus.overDaily || guidelineStatus.overWeekly;
 
 
   const removeDrink = (id: string) => {
     removeDrinkContext(id);
   };
 
-  const updateDrinkTime = (id: string, newTimestamp: number) => {
-    updateDrinkTimeContext(id, newTimestamp);
-    setEditingDrinkId(null);
-  };
-
-  const clearSession = () => {
-    Alert.alert('Clear Session', 'Are you sure you want to clear your session?', [
+  const endSession = () => {
+    Alert.alert('End Session', 'End this session? It will be moved to your history.', [
       { text: 'Cancel', onPress: () => { }, style: 'cancel' },
       {
-        text: 'Clear',
-        onPress: clearSessionContext,
+        text: 'End',
+        onPress: endSessionContext,
         style: 'destructive'
       }
     ]);
   };
 
-  const handleWeightChange = (text: string) => {
-    const num = parseInt(text) || 0;
-    setWeight(Math.max(1, num));
-  };
-
-  const handleFirstHourBurnChange = (text: string) => {
-    const num = parseFloat(text) || 0;
-    setFirstHourBurn(Math.max(0, Math.min(4, num)));
-  };
-
-  const handleSubsequentHourBurnChange = (text: string) => {
-    const num = parseFloat(text) || 0;
-    setSubsequentHourBurn(Math.max(0, Math.min(3, num)));
+  // Saved when the field is left, so a half-typed "17" on the way to 175
+  // never becomes the weight; anything invalid goes back to the saved value
+  const commitWeight = () => {
+    const num = Number(weightText);
+    if (Number.isFinite(num) && num >= PROFILE_LIMITS.weight.min && num <= PROFILE_LIMITS.weight.max) {
+      updateProfile({ weight: num });
+    } else {
+      setWeightText(weight.toString());
+    }
   };
 
   return (
@@ -107,229 +177,448 @@ const App: React.FC = () => {
           <View>
             <Text style={styles.title}>Standard Drinks</Text>
             <Text style={styles.subtitle}>CALCULATOR</Text>
+            <Pressable onPress={() => router.push('/history')} style={styles.historyButton}>
+              <Text style={styles.historyButtonText}>History ›</Text>
+            </Pressable>
           </View>
           <View style={styles.totalContainer}>
             <Text
               style={[
                 styles.totalValue,
-                { color: totalStdDrinks > 4 ? '#fca5a5' : '#14b8a6' }
+                { color: isOverGuideline ? '#fca5a5' : '#14b8a6' }
               ]}
             >
-              {totalStdDrinks.toFixed(2)}
+              {toStandardDrinks(totalGrams, unit).toFixed(2)}
             </Text>
-            <Text style={styles.totalLabel}>Total SD</Text>
+            <Text style={styles.totalLabel}>Total {unit.shortLabel}</Text>
             {sessionInfo && (
               <Text style={styles.sessionTime}>
                 {sessionInfo.hours}h {sessionInfo.mins}m Elapsed
               </Text>
             )}
+            {sessionInfo && (
+              <Text style={[styles.currentBac, currentBac > limit && styles.currentBacOver]}>
+                Est. BAC {formatBac(currentBac, settings.bacUnit, jurisdiction.breathRatio)} {bacUnitLabel(settings.bacUnit)}
+              </Text>
+            )}
           </View>
         </View>
 
         {/* Tabs */}
-        {!!process.env.API_KEY ?
-          <View style={styles.tabsContainer}>
-            <Pressable
-              onPress={() => setMode(CalculationMode.MANUAL)}
+        <View style={styles.tabsContainer}>
+          <Pressable
+            onPress={() => setMode(CalculationMode.MANUAL)}
+            style={[
+              styles.tab,
+              mode === CalculationMode.MANUAL && styles.tabActive
+            ]}
+          >
+            <Text
               style={[
-                styles.tab,
-                mode === CalculationMode.MANUAL && styles.tabActive
+                styles.tabText,
+                mode === CalculationMode.MANUAL && styles.tabTextActive
               ]}
             >
-              <Text
-                style={[
-                  styles.tabText,
-                  mode === CalculationMode.MANUAL && styles.tabTextActive
-                ]}
-              >
-                Calculator
-              </Text>
-            </Pressable>
-            <Pressable
-              onPress={() => setMode(CalculationMode.AI)}
+              Calculator
+            </Text>
+          </Pressable>
+          <Pressable
+            onPress={() => setMode(CalculationMode.MIXED)}
+            style={[
+              styles.tab,
+              mode === CalculationMode.MIXED && styles.tabActive
+            ]}
+          >
+            <Text
               style={[
-                styles.tab,
-                mode === CalculationMode.AI && styles.tabActive
+                styles.tabText,
+                mode === CalculationMode.MIXED && styles.tabTextActive
               ]}
             >
-              <Text
+              Mixer
+            </Text>
+          </Pressable>
+          <Pressable
+            onPress={() => setMode(CalculationMode.AI)}
+            style={[
+              styles.tab,
+              mode === CalculationMode.AI && styles.tabActive
+            ]}
+          >
+            <Text
+              style={[
+                styles.tabText,
+                mode === CalculationMode.AI && styles.tabTextActive
+              ]}
+            >
+              Describe
+            </Text>
+          </Pressable>
+        </View>
+
+        {/* Session Food Default */}
+        <View style={styles.foodContainer}>
+          <Text style={styles.foodLabel}>Stomach</Text>
+          <View style={styles.foodButtons}>
+            {FOOD_STATES.map(food => (
+              <Pressable
+                key={food.value}
+                onPress={() => setSessionFood(food.value)}
                 style={[
-                  styles.tabText,
-                  mode === CalculationMode.AI && styles.tabTextActive
+                  styles.foodButton,
+                  sessionFood === food.value && styles.foodButtonActive
                 ]}
               >
-                AI Recognition
-              </Text>
-            </Pressable>
-          </View> : null}
+                <Text
+                  style={[
+                    styles.foodButtonText,
+                    sessionFood === food.value && styles.foodButtonTextActive
+                  ]}
+                >
+                  {food.label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
 
         {/* Content Area */}
         <View style={styles.content}>
-          {mode === CalculationMode.MANUAL ? (
-            <ManualCalculator onAddDrink={addDrink} />
-          ) : (
-            <SmartInput onAddDrink={addDrink} />
-          )}
+          {mode === CalculationMode.MANUAL && <ManualCalculator onAddDrink={addDrink} />}
+          {mode === CalculationMode.MIXED && <CocktailBuilder onAddDrink={addDrink} />}
+          {mode === CalculationMode.AI && <SmartInput onAddDrink={addDrink} />}
 
-          {/* Session List & Graph */}
-          {drinks.length > 0 && (
-            <View style={styles.sessionContainer}>
+          <GuidelineTracker drinks={allDrinks} now={currentTime} />
+          <AlcoholFreeTracker drinks={allDrinks} now={currentTime} />
 
-              <View style={styles.settingsButtonContainer}>
-                <Pressable
-                  onPress={() => setShowSettings(!showSettings)}
-                  style={styles.settingsButton}
-                >
-                  <Text style={[
-                    styles.settingsButtonText,
-                    showSettings && styles.settingsButtonTextActive
-                  ]}>
-                    {showSettings ? 'Hide Settings' : 'Show Settings'}
-                  </Text>
-                </Pressable>
+          <ReverseCalculator />
+
+          <View style={styles.settingsButtonContainer}>
+            <Pressable
+              onPress={() => setShowSettings(!showSettings)}
+              style={styles.settingsButton}
+            >
+              <Text style={[
+                styles.settingsButtonText,
+                showSettings && styles.settingsButtonTextActive
+              ]}>
+                {showSettings ? 'Hide Settings' : 'Show Settings'}
+              </Text>
+            </Pressable>
+          </View>
+
+          {/* Settings Panel */}
+          {showSettings && (
+            <View style={styles.settingsPanel}>
+              <Text style={styles.settingsTitle}>Profile & Metabolism</Text>
+
+              <View style={styles.settingsGrid}>
+                <View style={styles.genderControl}>
+                  <Text style={styles.settingsLabel}>Gender</Text>
+                  <View style={styles.genderButtons}>
+                    <Pressable
+                      onPress={() => updateProfile({ gender: 'male' })}
+                      style={[
+                        styles.genderButton,
+                        gender === 'male' && styles.genderButtonActive
+                      ]}
+                    >
+                      <Text style={[
+                        styles.genderButtonText,
+                        gender === 'male' && styles.genderButtonTextActive
+                      ]}>
+                        Male
+                      </Text>
+                    </Pressable>
+                    <Pressable
+                      onPress={() => updateProfile({ gender: 'female' })}
+                      style={[
+                        styles.genderButton,
+                        gender === 'female' && styles.genderButtonActiveFemale
+                      ]}
+                    >
+                      <Text style={[
+                        styles.genderButtonText,
+                        gender === 'female' && styles.genderButtonTextActiveFemale
+                      ]}>
+                        Female
+                      </Text>
+                    </Pressable>
+                  </View>
+                </View>
+
+                <View style={styles.weightControl}>
+                  <Text style={styles.settingsLabel}>Weight (kg)</Text>
+                  <TextInput
+                    style={styles.weightValue}
+                    value={weightText}
+                    onChangeText={setWeightText}
+                    onBlur={commitWeight}
+                    onSubmitEditing={commitWeight}
+                    keyboardType="numeric"
+                  />
+                </View>
               </View>
 
-              {/* Settings Panel */}
-              {showSettings && (
-                <View style={styles.settingsPanel}>
-                  <Text style={styles.settingsTitle}>Profile & Metabolism</Text>
+              <View style={styles.unitContainer}>
+                <Text style={styles.settingsLabel}>Standard Drink</Text>
+                <View style={styles.unitButtons}>
+                  {STANDARD_DRINK_UNITS.map(u => (
+                    <Pressable
+                      key={u.id}
+                      onPress={() => updateSettings({ unitId: u.id })}
+                      style={[
+                        styles.unitButton,
+                        settings.unitId === u.id && styles.unitButtonActive
+                      ]}
+                    >
+                      <Text
+                        style={[
+                          styles.unitButtonText,
+                          settings.unitId === u.id && styles.unitButtonTextActive
+                        ]}
+                      >
+                        {u.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
 
-                  <View style={styles.settingsGrid}>
-                    <View style={styles.genderControl}>
-                      <Text style={styles.settingsLabel}>Gender</Text>
-                      <View style={styles.genderButtons}>
-                        <Pressable
-                          onPress={() => setGender('male')}
-                          style={[
-                            styles.genderButton,
-                            gender === 'male' && styles.genderButtonActive
-                          ]}
-                        >
-                          <Text style={[
-                            styles.genderButtonText,
-                            gender === 'male' && styles.genderButtonTextActive
-                          ]}>
-                            Male
-                          </Text>
-                        </Pressable>
-                        <Pressable
-                          onPress={() => setGender('female')}
-                          style={[
-                            styles.genderButton,
-                            gender === 'female' && styles.genderButtonActiveFemale
-                          ]}
-                        >
-                          <Text style={[
-                            styles.genderButtonText,
-                            gender === 'female' && styles.genderButtonTextActiveFemale
-                          ]}>
-                            Female
-                          </Text>
-                        </Pressable>
-                      </View>
-                    </View>
+              <View style={styles.unitContainer}>
+                <Text style={styles.settingsLabel}>Driving Limit</Text>
+                <View style={styles.unitButtons}>
+                  {JURISDICTIONS.map(j => (
+                    <Pressable
+                      key={j.id}
+                      onPress={() => updateSettings({
+                        jurisdictionId: j.id,
+                        licenceId: j.licences[0].id,
+                        bacUnit: j.bacUnit,
+                      })}
+                      style={[
+                        styles.unitButton,
+                        jurisdiction.id === j.id && styles.unitButtonActive
+                      ]}
+                    >
+                      <Text
+                        style={[
+                          styles.unitButtonText,
+                          jurisdiction.id === j.id && styles.unitButtonTextActive
+                        ]}
+                      >
+                        {j.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+                <View style={[styles.unitButtons, styles.unitButtonsRow]}>
+                  {jurisdiction.licences.map(l => (
+                    <Pressable
+                      key={l.id}
+                      onPress={() => updateSettings({ licenceId: l.id })}
+                      style={[
+                        styles.unitButton,
+                        settings.licenceId === l.id && styles.unitButtonActive
+                      ]}
+                    >
+                      <Text
+                        style={[
+                          styles.unitButtonText,
+                          settings.licenceId === l.id && styles.unitButtonTextActive
+                        ]}
+                      >
+                        {l.label} ({formatBac(l.limit, settings.bacUnit, jurisdiction.breathRatio)})
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+                <View style={[styles.unitButtons, styles.unitButtonsRow]}>
+                  {BAC_UNITS.map(u => (
+                    <Pressable
+                      key={u.value}
+                      onPress={() => updateSettings({ bacUnit: u.value })}
+                      style={[
+                        styles.unitButton,
+                        settings.bacUnit === u.value && styles.unitButtonActive
+                      ]}
+                    >
+                      <Text
+                        style={[
+                          styles.unitButtonText,
+                          settings.bacUnit === u.value && styles.unitButtonTextActive
+                        ]}
+                      >
+                        {u.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
 
-                    <View style={styles.weightControl}>
-                      <Text style={styles.settingsLabel}>Weight (kg)</Text>
-                      <Text style={styles.weightValue}>{weight}</Text>
-                    </View>
+              <View style={styles.burnRatesContainer}>
+                <View style={styles.burnRateControl}>
+                  <View style={styles.burnRateLabel}>
+                    <Text style={styles.burnRateLabelText}>Burn Rate: 1st Hour</Text>
+                    <Text style={styles.burnRateValue}>
+                      {toStandardDrinks(firstHourBurn, unit).toFixed(1)} {unit.shortLabel}
+                    </Text>
                   </View>
+                  <View style={styles.burnRateButtons}>
+                    <Pressable
+                      onPress={() => updateProfile({ firstHourBurn: Math.max(0, firstHourBurn - 0.5 * unit.grams) })}
+                      style={styles.burnRateButton}
+                    >
+                      <Text style={styles.burnRateButtonText}>−</Text>
+                    </Pressable>
+                    <Pressable
+                      onPress={() => updateProfile({ firstHourBurn: Math.min(PROFILE_LIMITS.firstHourBurn.max, firstHourBurn + 0.5 * unit.grams) })}
+                      style={styles.burnRateButton}
+                    >
+                      <Text style={styles.burnRateButtonText}>+</Text>
+                    </Pressable>
+                  </View>
+                </View>
 
-                  <View style={styles.burnRatesContainer}>
-                    <View style={styles.burnRateControl}>
-                      <View style={styles.burnRateLabel}>
-                        <Text style={styles.burnRateLabelText}>Burn Rate: 1st Hour</Text>
-                        <Text style={styles.burnRateValue}>{firstHourBurn.toFixed(1)} SD</Text>
-                      </View>
-                      <View style={styles.burnRateButtons}>
-                        <Pressable
-                          onPress={() => setFirstHourBurn(Math.max(0, firstHourBurn - 0.5))}
-                          style={styles.burnRateButton}
-                        >
-                          <Text style={styles.burnRateButtonText}>−</Text>
-                        </Pressable>
-                        <Pressable
-                          onPress={() => setFirstHourBurn(Math.min(4, firstHourBurn + 0.5))}
-                          style={styles.burnRateButton}
-                        >
-                          <Text style={styles.burnRateButtonText}>+</Text>
-                        </Pressable>
-                      </View>
-                    </View>
+                <View style={styles.burnRateControl}>
+                  <View style={styles.burnRateLabel}>
+                    <Text style={styles.burnRateLabelText}>Burn Rate: After</Text>
+                    <Text style={styles.burnRateValue}>
+                      {toStandardDrinks(subsequentHourBurn, unit).toFixed(1)} {unit.shortLabel}/hr
+                    </Text>
+                  </View>
+                  <View style={styles.burnRateButtons}>
+                    <Pressable
+                      onPress={() => updateProfile({ subsequentHourBurn: Math.max(0, subsequentHourBurn - 0.1 * unit.grams) })}
+                      style={styles.burnRateButton}
+                    >
+                      <Text style={styles.burnRateButtonText}>−</Text>
+                    </Pressable>
+                    <Pressable
+                      onPress={() => updateProfile({ subsequentHourBurn: Math.min(PROFILE_LIMITS.subsequentHourBurn.max, subsequentHourBurn + 0.1 * unit.grams) })}
+                      style={styles.burnRateButton}
+                    >
+                      <Text style={styles.burnRateButtonText}>+</Text>
+                    </Pressable>
+                  </View>
+                </View>
 
-                    <View style={styles.burnRateControl}>
-                      <View style={styles.burnRateLabel}>
-                        <Text style={styles.burnRateLabelText}>Burn Rate: After</Text>
-                        <Text style={styles.burnRateValue}>{subsequentHourBurn.toFixed(1)} SD/hr</Text>
-                      </View>
-                      <View style={styles.burnRateButtons}>
-                        <Pressable
-                          onPress={() => setSubsequentHourBurn(Math.max(0, subsequentHourBurn - 0.1))}
-                          style={styles.burnRateButton}
-                        >
-                          <Text style={styles.burnRateButtonText}>−</Text>
-                        </Pressable>
-                        <Pressable
-                          onPress={() => setSubsequentHourBurn(Math.min(3, subsequentHourBurn + 0.1))}
-                          style={styles.burnRateButton}
-                        >
-                          <Text style={styles.burnRateButtonText}>+</Text>
-                        </Pressable>
-                      </View>
-                    </View>
+                <View style={styles.burnRateControl}>
+                  <View style={styles.burnRateLabel}>
+                    <Text style={styles.burnRateLabelText}>Absorption: Time to Peak</Text>
+                    <Text style={styles.burnRateValue}>
+                      {absorptionMinutes === 0 ? 'Instant' : `${absorptionMinutes} min`}
+                    </Text>
+                  </View>
+                  <View style={styles.burnRateButtons}>
+                    <Pressable
+                      onPress={() => updateProfile({ absorptionMinutes: Math.max(0, absorptionMinutes - 15) })}
+                      style={styles.burnRateButton}
+                    >
+                      <Text style={styles.burnRateButtonText}>−</Text>
+                    </Pressable>
+                    <Pressable
+                      onPress={() => updateProfile({ absorptionMinutes: Math.min(PROFILE_LIMITS.absorptionMinutes.max, absorptionMinutes + 15) })}
+                      style={styles.burnRateButton}
+                    >
+                      <Text style={styles.burnRateButtonText}>+</Text>
+                    </Pressable>
                   </View>
                 </View>
-              )}
+              </View>
+
+              <NotificationSettings />
+            </View>
+          )}
 
+          {/* Session List & Graph */}
+          {(drinks.length > 0 || plannedDrinks.length > 0) && (
+            <View style={styles.sessionContainer}>
               <DrinkGraph
                 drinks={drinks}
+                plannedDrinks={plannedDrinks}
                 firstHourBurn={firstHourBurn}
                 subsequentHourBurn={subsequentHourBurn}
+                absorptionMinutes={absorptionMinutes}
                 weight={weight}
                 gender={gender}
+                limit={limit}
+                bacUnit={settings.bacUnit}
+                breathRatio={jurisdiction.breathRatio}
               />
 
-              <View style={styles.sessionHeader}>
-                <Text style={styles.sessionTitle}>Current Session</Text>
-                <Pressable onPress={clearSession}>
-                  <Text style={styles.clearButton}>Clear All</Text>
-                </Pressable>
-              </View>
+              <PlannedDrinkList unit={unit} />
+
+              {drinks.length > 0 && (
+                <View style={styles.sessionHeader}>
+                  <Text style={styles.sessionTitle}>Current Session</Text>
+                  <Pressable onPress={endSession}>
+                    <Text style={styles.clearButton}>End Session</Text>
+                  </Pressable>
+                </View>
+              )}
 
               <View style={styles.drinksList}>
                 {drinks.map(drink => (
                   <View key={drink.id} style={styles.drinkCard}>
                     <View style={styles.drinkContent}>
                       <View style={styles.drinkHeader}>
-                        <Text style={styles.drinkName}>{drink.name}</Text>
+                        <Pressable onPress={() => setEditingDrinkId(drink.id)}>
+                          <Text style={styles.drinkName}>{drink.name}</Text>
+                        </Pressable>
                         <Text style={styles.drinkStdValue}>
-                          {drink.standardDrinks.toFixed(1)} <Text style={styles.drinkStdUnit}>SD</Text>
+                          {toStandardDrinks(drink.alcoholGrams, unit).toFixed(1)} <Text style={styles.drinkStdUnit}>{unit.shortLabel}</Text>
                         </Text>
                       </View>
 
                       <View style={styles.drinkDetails}>
                         <Pressable
-                          onPress={() => {
-                            setEditingDrinkId(drink.id);
-                            const d = new Date(drink.timestamp);
-                            setEditingDate(d);
-                            setEditingTimeText(d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }));
-                            setShowDatePicker(true);
-                          }}
+                          onPress={() => setEditingDrinkId(drink.id)}
                           style={styles.timeEditButton}
                         >
                           <Text style={styles.drinkDetail}>
-                            {new Date(drink.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                            {formatClock(drink.timestamp)}
+                            {drink.endTime !== undefined ? `–${formatClock(drink.endTime)}` : ''}
                           </Text>
                           <Text style={styles.editIcon}>✎</Text>
                         </Pressable>
                         <Text style={styles.drinkDetail}>•</Text>
-                        <Text style={styles.drinkDetail}>{drink.volumeMl}ml</Text>
+                        <Pressable onPress={() => updateDrinkPortion(drink.id, nextPortion(drink.portion ?? 1))}>
+                          <Text style={styles.drinkDetail}>
+                            {drink.portion !== undefined ? `${portionLabel(drink.portion)} of ` : ''}{drink.volumeMl}ml
+                          </Text>
+                        </Pressable>
                         <Text style={styles.drinkDetail}>•</Text>
                         <Text style={styles.drinkDetail}>{drink.abv}%</Text>
+                        <Text style={styles.drinkDetail}>•</Text>
+                        <Pressable
+                          onPress={() => updateDrinkDuration(drink.id, nextDuration(drinkDurationMinutes(drink)))}
+                        >
+                          <Text style={[styles.drinkDetail, styles.drinkDuration]}>
+                            {durationLabel(drinkDurationMinutes(drink))}
+                          </Text>
+                        </Pressable>
+                        <Text style={styles.drinkDetail}>•</Text>
+                        <Pressable onPress={() => updateDrinkFood(drink.id, nextFoodState(drink.food ?? 'empty'))}>
+                          <Text style={[styles.drinkDetail, styles.drinkFood]}>
+                            {foodLabel(drink.food ?? 'empty')}
+                          </Text>
+                        </Pressable>
                       </View>
+
+                      {drink.notes && (
+                        <Text style={styles.drinkNotes} numberOfLines={2}>{drink.notes}</Text>
+                      )}
                     </View>
 
+                    <Pressable
+                      onPress={() => addDrink(drink.name, drink.volumeMl, drink.abv, { portion: drink.portion })}
+                      style={styles.sameAgainButton}
+                      accessibilityLabel={`Same again: ${drink.name}`}
+                    >
+                      <Text style={styles.sameAgainButtonText}>↻</Text>
+                    </Pressable>
+
                     <Pressable
                       onPress={() => removeDrink(drink.id)}
                       style={styles.removeButton}
@@ -341,115 +630,16 @@ const App: React.FC = () => {
                 ))}
               </View>
 
-              {/* Edit Modal / Picker */}
-              {editingDrinkId && (
-                <>
-                  {Platform.OS === 'android' && showDatePicker ? (
-                    (() => {
-                      try {
-                        // eslint-disable-next-line @typescript-eslint/no-var-requires
-                        const DateTimePicker = require('@react-native-community/datetimepicker').default;
-                        return (
-                          <DateTimePicker
-                            value={editingDate || new Date()}
-                            mode="time"
-                            display="default"
-                            onChange={(event: any, selected?: Date) => {
-                              setShowDatePicker(false);
-                              if (event.type === 'set' && selected) {
-                                updateDrinkTime(editingDrinkId, selected.getTime());
-                              } else {
-                                setEditingDrinkId(null);
-                              }
-                            }}
-                          />
-                        );
-                      } catch (err) {
-                        return null;
-                      }
-                    })()
-                  ) : (
-                    Platform.OS !== 'android' && (
-                      <Modal
-                        visible={true}
-                        transparent
-                        animationType="fade"
-                        onRequestClose={() => setEditingDrinkId(null)}
-                      >
-                        <Pressable
-                          style={styles.modalOverlay}
-                          onPress={() => setEditingDrinkId(null)}
-                        >
-                          <Pressable onPress={() => { }} style={styles.modalContent}>
-                            <Text style={styles.modalTitle}>Edit Drink Time</Text>
-                            {Platform.OS === 'web' ? (
-                              <>
-                                <TextInput
-                                  style={styles.timeInput}
-                                  value={editingTimeText}
-                                  placeholder="HH:MM"
-                                  placeholderTextColor="#64748b"
-                                  onChangeText={setEditingTimeText}
-                                />
-                                <Pressable
-                                  onPress={() => {
-                                    const [hours, mins] = editingTimeText.split(':').map(n => Number(n.split(' ')[0]));
-                                    if (!isNaN(hours) && !isNaN(mins)) {
-                                      const newDate = new Date(editingDate || Date.now());
-                                      newDate.setHours(hours, mins, 0);
-                                      updateDrinkTime(editingDrinkId, newDate.getTime());
-                                    }
-                                    setEditingDrinkId(null);
-                                  }}
-                                  style={styles.modalButton}
-                                >
-                                  <Text style={styles.modalButtonText}>Done</Text>
-                                </Pressable>
-                              </>
-                            ) : (
-                              <>
-                                {(() => {
-                                  try {
-                                    // eslint-disable-next-line @typescript-eslint/no-var-requires
-                                    const DateTimePicker = require('@react-native-community/datetimepicker').default;
-                                    return (
-                                      <DateTimePicker
-                                        value={editingDate || new Date()}
-                                        mode="time"
-                                        display="spinner"
-                                        onChange={(_e: any, selected?: Date) => {
-                                          if (selected) setEditingDate(selected);
-                                        }}
-                                      />
-                                    );
-                                  } catch (err) {
-                                    return null;
-                                  }
-                                })()}
-
-                                <Pressable
-                                  onPress={() => {
-                                    if (editingDate) {
-                                      const newDate = new Date(editingDate); // Use editingDate directly as it's updated by spinner
-                                      // But we need the original date for year/month/day if we only picked time?
-                                      // Actually editingDate is initialized with the drink's timestamp, so it has correct date.
-                                      // However, the spinner updates the whole date object.
-                                      updateDrinkTime(editingDrinkId, editingDate.getTime());
-                                    }
-                                    setEditingDrinkId(null);
-                                  }}
-                                  style={styles.modalButton}
-                                >
-                                  <Text style={styles.modalButtonText}>Done</Text>
-                                </Pressable>
-                              </>
-                            )}
-                          </Pressable>
-                        </Pressable>
-                      </Modal>
-                    )
-                  )}
-                </>
+              {editingDrink && (
+                <EditDrinkSheet
+                  drink={editingDrink}
+                  unit={unit}
+                  onSave={changes => {
+                    updateDrink(editingDrink.id, changes);
+                    setEditingDrinkId(null);
+                  }}
+                  onClose={() => setEditingDrinkId(null)}
+                />
               )}
 
             </View>
@@ -462,7 +652,7 @@ const App: React.FC = () => {
             This is a guide only. Alcohol affects everyone differently.
           </Text>
           <Text style={styles.footerText}>
-            Config: {weight}kg {gender}, {firstHourBurn.toFixed(1)} SD 1st hr, then {subsequentHourBurn.toFixed(1)} SD/hr.
+            Config: {weight}kg {gender}, {toStandardDrinks(firstHourBurn, unit).toFixed(1)} {unit.shortLabel} 1st hr, then {toStandardDrinks(subsequentHourBurn, unit).toFixed(1)} {unit.shortLabel}/hr, peak after {absorptionMinutes} min.
           </Text>
         </View>
       </ScrollView>
@@ -501,6 +691,17 @@ const styles = StyleSheet.create({
     color: '#94a3b8',
     letterSpacing: 1.2,
   },
+  historyButton: {
+    marginTop: 12,
+    alignSelf: 'flex-start',
+  },
+  historyButtonText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#64748b',
+    letterSpacing: 0.8,
+    textTransform: 'uppercase',
+  },
   totalContainer: {
     alignItems: 'flex-end',
   },
@@ -529,6 +730,15 @@ const styles = StyleSheet.create({
     borderColor: 'rgba(99, 102, 241, 0.3)',
     fontFamily: 'monospace',
   },
+  currentBac: {
+    fontSize: 11,
+    color: '#94a3b8',
+    marginTop: 6,
+    fontFamily: 'monospace',
+  },
+  currentBacOver: {
+    color: '#fdba74',
+  },
   tabsContainer: {
     flexDirection: 'row',
     gap: 8,
@@ -554,6 +764,45 @@ const styles = StyleSheet.create({
   tabTextActive: {
     color: '#ffffff',
   },
+  foodContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  foodLabel: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#64748b',
+    letterSpacing: 1,
+    textTransform: 'uppercase',
+  },
+  foodButtons: {
+    flex: 1,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  foodButton: {
+    flex: 1,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: 'rgba(71, 85, 105, 0.5)',
+    alignItems: 'center',
+  },
+  foodButtonActive: {
+    backgroundColor: 'rgba(245, 158, 11, 0.2)',
+    borderWidth: 1,
+    borderColor: 'rgba(245, 158, 11, 0.5)',
+  },
+  foodButtonText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#94a3b8',
+  },
+  foodButtonTextActive: {
+    color: '#fcd34d',
+  },
   content: {
     flex: 1,
     padding: 16,
@@ -643,6 +892,36 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#14b8a6',
   },
+  unitContainer: {
+    marginBottom: 16,
+  },
+  unitButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  unitButtonsRow: {
+    marginTop: 8,
+  },
+  unitButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    backgroundColor: '#334155',
+  },
+  unitButtonActive: {
+    backgroundColor: 'rgba(20, 184, 166, 0.2)',
+    borderWidth: 1,
+    borderColor: 'rgba(20, 184, 166, 0.5)',
+  },
+  unitButtonText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#94a3b8',
+  },
+  unitButtonTextActive: {
+    color: '#5eead4',
+  },
   burnRatesContainer: {
     borderTopWidth: 1,
     borderTopColor: '#334155',
@@ -739,6 +1018,12 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#475569',
   },
+  drinkNotes: {
+    fontSize: 11,
+    fontStyle: 'italic',
+    color: '#94a3b8',
+    marginTop: 4,
+  },
   drinkDetails: {
     flexDirection: 'row',
     gap: 8,
@@ -749,10 +1034,25 @@ const styles = StyleSheet.create({
     color: '#64748b',
     fontFamily: 'monospace',
   },
-  removeButton: {
+  drinkFood: {
+    color: '#fbbf24',
+  },
+  drinkDuration: {
+    color: '#5eead4',
+  },
+  sameAgainButton: {
     marginLeft: 12,
     paddingHorizontal: 8,
   },
+  sameAgainButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#14b8a6',
+  },
+  removeButton: {
+    marginLeft: 4,
+    paddingHorizontal: 8,
+  },
   removeButtonText: {
     fontSize: 16,
     color: '#64748b',
@@ -767,48 +1067,6 @@ const styles = StyleSheet.create({
     color: '#94a3b8',
     marginLeft: 2,
   },
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  modalContent: {
-    backgroundColor: '#1e293b',
-    borderRadius: 12,
-    padding: 20,
-    width: '80%',
-    borderWidth: 1,
-    borderColor: '#334155',
-  },
-  modalTitle: {
-    fontSize: 16,
-    fontWeight: '700',
-    color: '#ffffff',
-    marginBottom: 16,
-  },
-  timeInput: {
-    backgroundColor: '#0f172a',
-    borderWidth: 1,
-    borderColor: '#334155',
-    borderRadius: 8,
-    color: '#ffffff',
-    padding: 12,
-    fontSize: 14,
-    marginBottom: 16,
-    fontFamily: 'monospace',
-  },
-  modalButton: {
-    backgroundColor: '#14b8a6',
-    borderRadius: 8,
-    paddingVertical: 12,
-    alignItems: 'center',
-  },
-  modalButtonText: {
-    color: '#ffffff',
-    fontWeight: '700',
-    fontSize: 14,
-  },
   footer: {
     paddingVertical: 12,
     paddingHorizontal: 16,
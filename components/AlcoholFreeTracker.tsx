@@ -0,0 +1,253 @@
+import React, { useMemo } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { useSettings } from '../context/SettingsContext';
+import {
+  alcoholFreeStreaks,
+  dayTotalsSince,
+  MAX_ALCOHOL_FREE_GOAL,
+  startOfWeek,
+  trackingStart,
+  weekGoalProgress,
+} from '../services/alcoholFree';
+import { addDays, startOfDay } from '../services/guidelines';
+import { toStandardDrinks } from '../services/standardDrinks';
+import { Drink } from '../types';
+
+interface AlcoholFreeTrackerProps {
+  // Every drink on record: the current session and history
+  drinks: Drink[];
+  now: number;
+}
+
+const HEATMAP_WEEKS = 5;
+const WEEKDAY_LABELS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+// Heatmap shade for a day's standard drinks
+const cellColor = (standardDrinks: number) => {
+  if (standardDrinks === 0) return 'rgba(20, 184, 166, 0.35)';
+  if (standardDrinks <= 2) return 'rgba(249, 115, 22, 0.3)';
+  if (standardDrinks <= 4) return 'rgba(249, 115, 22, 0.65)';
+  return 'rgba(239, 68, 68, 0.85)';
+};
+
+const dayCount = (days: number) => `${days} ${days === 1 ? 'day' : 'days'}`;
+
+// Alcohol-free days: streaks, this week's goal and the last few weeks at a glance
+const AlcoholFreeTracker: React.FC<AlcoholFreeTrackerProps> = ({ drinks, now }) => {
+  const { settings, updateSettings, unit } = useSettings();
+  const goal = settings.alcoholFreeGoal;
+
+  const start = useMemo(() => trackingStart(drinks), [drinks]);
+  const days = useMemo(() => (start === null ? [] : dayTotalsSince(drinks, start, now)), [drinks, start, now]);
+  const streaks = useMemo(() => alcoholFreeStreaks(days), [days]);
+  const week = useMemo(() => weekGoalProgress(days, goal, now), [days, goal, now]);
+
+  // Rows of Monday-to-Sunday weeks ending with this one
+  const heatmap = useMemo(() => {
+    const grams = new Map(days.map(d => [d.dayStart, d.grams]));
+    const firstDay = addDays(startOfWeek(now), -7 * (HEATMAP_WEEKS - 1));
+    return Array.from({ length: HEATMAP_WEEKS }, (_, w) =>
+      Array.from({ length: 7 }, (_, d) => {
+        const dayStart = addDays(firstDay, w * 7 + d);
+        return { dayStart, grams: grams.get(dayStart) ?? null };
+      })
+    );
+  }, [days, now]);
+
+  if (start === null) return null;
+
+  const today = startOfDay(now);
+  const setGoal = (value: number) =>
+    updateSettings({ alcoholFreeGoal: Math.max(0, Math.min(MAX_ALCOHOL_FREE_GOAL, value)) });
+
+  let goalMessage = `${dayCount(week.goal - week.alcoholFreeDays)} to go`;
+  if (week.met) goalMessage = 'Goal met';
+  else if (!week.reachable) goalMessage = 'Out of reach this week';
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Alcohol-Free Days</Text>
+
+      <View style={styles.stats}>
+        <View style={styles.stat}>
+          <Text style={styles.statValue}>{streaks.current}</Text>
+          <Text style={styles.statLabel}>Current Streak</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statValue}>{streaks.longest}</Text>
+          <Text style={styles.statLabel}>Longest</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statValue}>{streaks.total}</Text>
+          <Text style={styles.statLabel}>Total</Text>
+        </View>
+      </View>
+
+      <View style={styles.goalRow}>
+        <View style={styles.goalInfo}>
+          <Text style={styles.goalLabel}>This week: {week.alcoholFreeDays} of {goal}</Text>
+          <Text style={[styles.goalStatus, week.met && styles.goalStatusMet, !week.reachable && styles.goalStatusMissed]}>
+            {goal > 0 ? goalMessage : 'No goal set'}
+          </Text>
+        </View>
+        <View style={styles.stepper}>
+          <Pressable onPress={() => setGoal(goal - 1)} style={styles.stepButton}>
+            <Text style={styles.stepButtonText}>−</Text>
+          </Pressable>
+          <Pressable onPress={() => setGoal(goal + 1)} style={styles.stepButton}>
+            <Text style={styles.stepButtonText}>+</Text>
+          </Pressable>
+        </View>
+      </View>
+
+      <View style={styles.heatmap}>
+        <View style={styles.heatmapRow}>
+          {WEEKDAY_LABELS.map((label, i) => (
+            <Text key={i} style={styles.heatmapLabel}>{label}</Text>
+          ))}
+        </View>
+        {heatmap.map(row => (
+          <View key={row[0].dayStart} style={styles.heatmapRow}>
+            {row.map(cell => {
+              // Nothing to show for days before tracking began or still to come
+              const isTracked = cell.grams !== null;
+              const standardDrinks = isTracked ? toStandardDrinks(cell.grams ?? 0, unit) : 0;
+              return (
+                <View
+                  key={cell.dayStart}
+                  style={[
+                    styles.cell,
+                    isTracked && { backgroundColor: cellColor(standardDrinks) },
+                    cell.dayStart === today && styles.cellToday,
+                  ]}
+                >
+                  {isTracked && standardDrinks > 0 && (
+                    <Text style={styles.cellText}>{Math.round(standardDrinks)}</Text>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(30, 41, 59, 0.8)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(71, 85, 105, 0.5)',
+    padding: 16,
+    marginBottom: 24,
+    gap: 12,
+  },
+  title: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#94a3b8',
+    letterSpacing: 1.5,
+    textTransform: 'uppercase',
+  },
+  stats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  stat: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: '900',
+    color: '#14b8a6',
+  },
+  statLabel: {
+    fontSize: 9,
+    fontWeight: '700',
+    color: '#64748b',
+    letterSpacing: 1,
+    textTransform: 'uppercase',
+    marginTop: 2,
+  },
+  goalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderTopWidth: 1,
+    borderTopColor: '#334155',
+    paddingTop: 12,
+  },
+  goalInfo: {
+    flex: 1,
+  },
+  goalLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#cbd5e1',
+  },
+  goalStatus: {
+    fontSize: 11,
+    color: '#94a3b8',
+    marginTop: 2,
+    fontFamily: 'monospace',
+  },
+  goalStatusMet: {
+    color: '#14b8a6',
+    fontWeight: '700',
+  },
+  goalStatusMissed: {
+    color: '#f97316',
+  },
+  stepper: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 6,
+    backgroundColor: '#334155',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#14b8a6',
+  },
+  heatmap: {
+    gap: 4,
+  },
+  heatmapRow: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  heatmapLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 9,
+    color: '#64748b',
+    fontFamily: 'monospace',
+  },
+  cell: {
+    flex: 1,
+    aspectRatio: 1,
+    borderRadius: 4,
+    backgroundColor: 'rgba(51, 65, 85, 0.3)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cellToday: {
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  cellText: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#f8fafc',
+  },
+});
+
+export default AlcoholFreeTracker;
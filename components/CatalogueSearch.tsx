@@ -0,0 +1,286 @@
+import React, { useMemo, useState } from 'react';
+import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useLibrary } from '../context/LibraryContext';
+import {
+  BEVERAGE_CATEGORIES,
+  BeverageCategory,
+  CatalogueEntry,
+  CatalogueServe,
+  createCatalogueEntry,
+  searchCatalogue,
+} from '../services/beverageCatalogue';
+import { Preset, presetLabelFor } from '../services/presets';
+
+interface CatalogueSearchProps {
+  // The entry currently filling volume and ABV, if any
+  selected: CatalogueEntry | null;
+  volume: number;
+  abv: number;
+  onSelect: (entry: CatalogueEntry | null, serve?: CatalogueServe) => void;
+}
+
+const categoryLabel = (category: BeverageCategory) =>
+  BEVERAGE_CATEGORIES.find(c => c.value === category)?.label ?? category;
+
+// Name the current volume after a size preset where there is one
+const serveForVolume = (sizes: Preset[], volume: number): CatalogueServe => {
+  const label = presetLabelFor(sizes, volume);
+  return { label: label ? label.replace(/\s*\(.*?\)\s*/g, '') : `${volume}ml`, volumeMl: volume };
+};
+
+const CatalogueSearch: React.FC<CatalogueSearchProps> = ({ selected, volume, abv, onSelect }) => {
+  const { catalogue, addCatalogueEntry, removeCatalogueEntry, presets } = useLibrary();
+  const [query, setQuery] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [newCategory, setNewCategory] = useState<BeverageCategory>('beer');
+
+  const results = useMemo(() => searchCatalogue(catalogue, query), [catalogue, query]);
+
+  const choose = (entry: CatalogueEntry, serve?: CatalogueServe) => {
+    onSelect(entry, serve ?? entry.serves[0]);
+    setQuery('');
+    setIsAdding(false);
+  };
+
+  const saveCustomEntry = () => {
+    if (!query.trim() || !(volume > 0) || !(abv > 0)) return;
+
+    const entry = createCatalogueEntry(query, newCategory, abv, serveForVolume(presets.size, volume));
+    addCatalogueEntry(entry);
+    choose(entry);
+  };
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={styles.searchInput}
+        value={query}
+        onChangeText={text => {
+          setQuery(text);
+          setIsAdding(false);
+        }}
+        placeholder="Search brands & products (VB, Guinness, Shiraz…)"
+        placeholderTextColor="#64748b"
+        autoCorrect={false}
+      />
+
+      {query.trim().length > 0 && (
+        <View style={styles.results}>
+          {results.map(entry => (
+            <Pressable key={entry.id} onPress={() => choose(entry)} style={styles.resultRow}>
+              <View style={styles.resultInfo}>
+                <Text style={styles.resultName}>{entry.name}</Text>
+                <Text style={styles.resultDetail}>
+                  {categoryLabel(entry.category)} · {entry.abv}%{entry.custom ? ' · Yours' : ''}
+                </Text>
+              </View>
+              {entry.custom && (
+                <Pressable onPress={() => removeCatalogueEntry(entry.id)} hitSlop={8}>
+                  <Text style={styles.removeText}>Remove</Text>
+                </Pressable>
+              )}
+            </Pressable>
+          ))}
+
+          {results.length === 0 && (
+            <Text style={styles.emptyText}>Nothing in the catalogue matches “{query.trim()}”.</Text>
+          )}
+
+          {isAdding ? (
+            <View style={styles.addForm}>
+              <Text style={styles.addFormText}>
+                Save “{query.trim()}” as {serveForVolume(presets.size, volume).label} @ {abv}% (set volume and ABV below first)
+              </Text>
+              <View style={styles.categoryButtons}>
+                {BEVERAGE_CATEGORIES.map(c => (
+                  <Pressable
+                    key={c.value}
+                    onPress={() => setNewCategory(c.value)}
+                    style={[styles.categoryButton, newCategory === c.value && styles.categoryButtonActive]}
+                  >
+                    <Text
+                      style={[
+                        styles.categoryButtonText,
+                        newCategory === c.value && styles.categoryButtonTextActive
+                      ]}
+                    >
+                      {c.label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+              <Pressable
+                onPress={saveCustomEntry}
+                disabled={!(volume > 0) || !(abv > 0)}
+                style={[styles.saveButton, (!(volume > 0) || !(abv > 0)) && styles.saveButtonDisabled]}
+              >
+                <Text style={styles.saveButtonText}>Save to Catalogue</Text>
+              </Pressable>
+            </View>
+          ) : (
+            <Pressable onPress={() => setIsAdding(true)}>
+              <Text style={styles.addLink}>+ Add “{query.trim()}” to your catalogue</Text>
+            </Pressable>
+          )}
+        </View>
+      )}
+
+      {selected && query.trim().length === 0 && (
+        <View style={styles.selected}>
+          <View style={styles.selectedHeader}>
+            <Text style={styles.selectedName}>{selected.name} · {selected.abv}%</Text>
+            <Pressable onPress={() => onSelect(null)} hitSlop={8}>
+              <Text style={styles.clearText}>✕</Text>
+            </Pressable>
+          </View>
+          <View style={styles.categoryButtons}>
+            {selected.serves.map(serve => (
+              <Pressable
+                key={`${serve.label}-${serve.volumeMl}`}
+                onPress={() => onSelect(selected, serve)}
+                style={[styles.categoryButton, volume === serve.volumeMl && styles.categoryButtonActive]}
+              >
+                <Text
+                  style={[
+                    styles.categoryButtonText,
+                    volume === serve.volumeMl && styles.categoryButtonTextActive
+                  ]}
+                >
+                  {serve.label} {serve.volumeMl}ml
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 20,
+  },
+  searchInput: {
+    backgroundColor: '#1e293b',
+    color: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#334155',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 13,
+  },
+  results: {
+    marginTop: 8,
+    backgroundColor: 'rgba(30, 41, 59, 0.5)',
+    borderWidth: 1,
+    borderColor: 'rgba(71, 85, 105, 0.5)',
+    borderRadius: 12,
+    padding: 8,
+    gap: 4,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  resultName: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#e2e8f0',
+  },
+  resultDetail: {
+    fontSize: 10,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  removeText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#f87171',
+  },
+  emptyText: {
+    fontSize: 11,
+    color: '#64748b',
+    padding: 8,
+  },
+  addLink: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#14b8a6',
+    padding: 8,
+  },
+  addForm: {
+    padding: 8,
+    gap: 8,
+  },
+  addFormText: {
+    fontSize: 11,
+    color: '#94a3b8',
+    lineHeight: 16,
+  },
+  categoryButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  categoryButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    backgroundColor: 'rgba(71, 85, 105, 0.5)',
+    borderRadius: 8,
+  },
+  categoryButtonActive: {
+    backgroundColor: 'rgba(20, 184, 166, 0.2)',
+    borderWidth: 1,
+    borderColor: 'rgba(20, 184, 166, 0.5)',
+  },
+  categoryButtonText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#94a3b8',
+  },
+  categoryButtonTextActive: {
+    color: '#5eead4',
+  },
+  saveButton: {
+    backgroundColor: '#0d9488',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  selected: {
+    marginTop: 8,
+    gap: 8,
+  },
+  selectedHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  selectedName: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#a78bfa',
+  },
+  clearText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+});
+
+export default CatalogueSearch;
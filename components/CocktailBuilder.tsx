@@ -0,0 +1,440 @@
+import React, { useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useLibrary } from '../context/LibraryContext';
+import { useSettings } from '../context/SettingsContext';
+import { createRecipe, INGREDIENT_TEMPLATES, mixTotals, Recipe, RecipeIngredient } from '../services/recipes';
+import { toStandardDrinks } from '../services/standardDrinks';
+import { NewDrinkOptions } from '../types';
+
+interface CocktailBuilderProps {
+  onAddDrink: (name: string, volume: number, abv: number, options?: NewDrinkOptions) => void;
+}
+
+// Fields are kept as text while editing, like parsed drafts
+interface IngredientRow {
+  key: string;
+  name: string;
+  volumeText: string;
+  abvText: string;
+}
+
+let rowCounter = 0;
+const toRow = (ingredient: RecipeIngredient): IngredientRow => ({
+  key: `row-${rowCounter++}`,
+  name: ingredient.name,
+  volumeText: ingredient.volumeMl.toString(),
+  abvText: ingredient.abv.toString(),
+});
+
+// Null while the row doesn't make sense yet
+const toIngredient = (row: IngredientRow): RecipeIngredient | null => {
+  const volumeMl = Number(row.volumeText);
+  const abv = Number(row.abvText);
+  if (!row.name.trim() || !(volumeMl > 0) || !(abv >= 0) || abv > 100) return null;
+  return { name: row.name.trim(), volumeMl, abv };
+};
+
+const CocktailBuilder: React.FC<CocktailBuilderProps> = ({ onAddDrink }) => {
+  const { unit } = useSettings();
+  const { recipes, saveRecipe, removeRecipe } = useLibrary();
+  const [name, setName] = useState('');
+  const [rows, setRows] = useState<IngredientRow[]>([]);
+  // The saved recipe being edited, if any. Starters are never overwritten.
+  const [recipeId, setRecipeId] = useState<string | null>(null);
+  const [savedNotice, setSavedNotice] = useState(false);
+
+  const ingredients = rows.map(toIngredient);
+  const validIngredients = ingredients.filter((i): i is RecipeIngredient => i !== null);
+  const allValid = rows.length > 0 && validIngredients.length === rows.length;
+  const totals = mixTotals(validIngredients);
+  const canUse = allValid && name.trim().length > 0 && totals.alcoholGrams > 0;
+
+  const updateRow = (key: string, changes: Partial<IngredientRow>) => {
+    setRows(prev => prev.map(r => (r.key === key ? { ...r, ...changes } : r)));
+    setSavedNotice(false);
+  };
+
+  const addRow = (template: RecipeIngredient) => {
+    setRows(prev => [...prev, toRow(template)]);
+    setSavedNotice(false);
+  };
+
+  const removeRow = (key: string) => {
+    setRows(prev => prev.filter(r => r.key !== key));
+    setSavedNotice(false);
+  };
+
+  const loadRecipe = (recipe: Recipe) => {
+    setName(recipe.name);
+    setRows(recipe.ingredients.map(toRow));
+    setRecipeId(recipe.builtIn ? null : recipe.id);
+    setSavedNotice(false);
+  };
+
+  const clear = () => {
+    setName('');
+    setRows([]);
+    setRecipeId(null);
+    setSavedNotice(false);
+  };
+
+  const handleSave = () => {
+    if (!canUse) return;
+
+    const recipe = recipeId
+      ? { id: recipeId, name: name.trim(), ingredients: validIngredients }
+      : createRecipe(name, validIngredients);
+    saveRecipe(recipe);
+    setRecipeId(recipe.id);
+    setSavedNotice(true);
+  };
+
+  const handleAdd = () => {
+    if (!canUse) return;
+    onAddDrink(name.trim(), Math.round(totals.volumeMl), Math.round(totals.abv * 100) / 100);
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      {/* Recipes */}
+      <Text style={styles.sectionTitle}>Recipes</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.recipeStrip}>
+        {recipes.map(recipe => (
+          <View
+            key={recipe.id}
+            style={[styles.recipeChip, recipe.id === recipeId && styles.recipeChipActive]}
+          >
+            <Pressable onPress={() => loadRecipe(recipe)}>
+              <Text style={styles.recipeChipText}>{recipe.name}</Text>
+            </Pressable>
+            {!recipe.builtIn && (
+              <Pressable
+                onPress={() => {
+                  removeRecipe(recipe.id);
+                  if (recipe.id === recipeId) setRecipeId(null);
+                }}
+                hitSlop={8}
+              >
+                <Text style={styles.recipeRemoveText}>✕</Text>
+              </Pressable>
+            )}
+          </View>
+        ))}
+      </ScrollView>
+
+      {/* Result Preview */}
+      <View style={styles.resultCard}>
+        <Text style={styles.resultLabel}>Mixed Drink</Text>
+        <View style={styles.resultValue}>
+          <Text style={styles.resultNumber}>{toStandardDrinks(totals.alcoholGrams, unit).toFixed(2)}</Text>
+          <Text style={styles.resultUnit}>{unit.shortLabel}</Text>
+        </View>
+        <Text style={styles.resultDetail}>
+          {Math.round(totals.volumeMl)}ml @ {totals.abv.toFixed(1)}%
+        </Text>
+        <TextInput
+          style={styles.nameInput}
+          value={name}
+          onChangeText={text => {
+            setName(text);
+            setSavedNotice(false);
+          }}
+          placeholder="Name this drink"
+          placeholderTextColor="#64748b"
+        />
+      </View>
+
+      {/* Ingredients */}
+      <View style={styles.controlCard}>
+        <View style={styles.controlHeader}>
+          <Text style={styles.controlLabel}>Ingredients</Text>
+          {rows.length > 0 && (
+            <Pressable onPress={clear} hitSlop={8}>
+              <Text style={styles.clearText}>Clear</Text>
+            </Pressable>
+          )}
+        </View>
+
+        {rows.length === 0 && (
+          <Text style={styles.emptyText}>Add what goes into it, or start from a recipe above.</Text>
+        )}
+
+        {rows.map((row, index) => (
+          <View key={row.key} style={[styles.ingredientRow, ingredients[index] === null && styles.ingredientRowInvalid]}>
+            <TextInput
+              style={styles.ingredientName}
+              value={row.name}
+              onChangeText={text => updateRow(row.key, { name: text })}
+              placeholder="Ingredient"
+              placeholderTextColor="#64748b"
+            />
+            <TextInput
+              style={styles.ingredientNumber}
+              value={row.volumeText}
+              onChangeText={volumeText => updateRow(row.key, { volumeText })}
+              keyboardType="numeric"
+            />
+            <Text style={styles.ingredientUnit}>ml</Text>
+            <TextInput
+              style={[styles.ingredientNumber, styles.ingredientNumberPurple]}
+              value={row.abvText}
+              onChangeText={abvText => updateRow(row.key, { abvText })}
+              keyboardType="numeric"
+            />
+            <Text style={styles.ingredientUnit}>%</Text>
+            <Pressable onPress={() => removeRow(row.key)} hitSlop={8}>
+              <Text style={styles.ingredientRemove}>✕</Text>
+            </Pressable>
+          </View>
+        ))}
+
+        <View style={styles.templateButtons}>
+          {INGREDIENT_TEMPLATES.map(template => (
+            <Pressable key={template.name} onPress={() => addRow(template)} style={styles.templateButton}>
+              <Text style={styles.templateButtonText}>+ {template.name}</Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.actions}>
+        <Pressable
+          onPress={handleSave}
+          disabled={!canUse}
+          style={[styles.saveButton, !canUse && styles.buttonDisabled]}
+        >
+          <Text style={styles.saveButtonText}>{savedNotice ? 'Saved ✓' : recipeId ? 'Update Recipe' : 'Save Recipe'}</Text>
+        </Pressable>
+        <Pressable
+          onPress={handleAdd}
+          disabled={!canUse}
+          style={({ pressed }) => [
+            styles.addButton,
+            pressed && styles.addButtonPressed,
+            !canUse && styles.buttonDisabled
+          ]}
+        >
+          <Text style={styles.addButtonText}>+ Add Drink</Text>
+        </Pressable>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 10,
+    color: '#94a3b8',
+    fontWeight: '700',
+    letterSpacing: 1.5,
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  recipeStrip: {
+    gap: 8,
+    marginBottom: 20,
+  },
+  recipeChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: 'rgba(30, 41, 59, 0.8)',
+    borderWidth: 1,
+    borderColor: 'rgba(71, 85, 105, 0.5)',
+    borderRadius: 10,
+  },
+  recipeChipActive: {
+    borderColor: 'rgba(168, 85, 247, 0.6)',
+  },
+  recipeChipText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#d8b4fe',
+  },
+  recipeRemoveText: {
+    fontSize: 11,
+    color: '#64748b',
+  },
+  resultCard: {
+    backgroundColor: '#1e293b',
+    padding: 24,
+    borderRadius: 12,
+    marginBottom: 24,
+    alignItems: 'center',
+  },
+  resultLabel: {
+    fontSize: 10,
+    color: '#94a3b8',
+    fontWeight: '700',
+    letterSpacing: 1.5,
+    marginBottom: 8,
+  },
+  resultValue: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  resultNumber: {
+    fontSize: 48,
+    fontWeight: '900',
+    color: '#14b8a6',
+  },
+  resultUnit: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#64748b',
+    marginBottom: 4,
+  },
+  resultDetail: {
+    fontSize: 12,
+    fontFamily: 'monospace',
+    color: '#94a3b8',
+    marginTop: 8,
+  },
+  nameInput: {
+    alignSelf: 'stretch',
+    textAlign: 'center',
+    color: '#a78bfa',
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 12,
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#334155',
+  },
+  controlCard: {
+    backgroundColor: 'rgba(30, 41, 59, 0.5)',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(71, 85, 105, 0.5)',
+    gap: 8,
+  },
+  controlHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  controlLabel: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#cbd5e1',
+  },
+  clearText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#f87171',
+  },
+  emptyText: {
+    fontSize: 11,
+    color: '#64748b',
+  },
+  ingredientRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: 'rgba(71, 85, 105, 0.3)',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'transparent',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  ingredientRowInvalid: {
+    borderColor: 'rgba(239, 68, 68, 0.5)',
+  },
+  ingredientName: {
+    flex: 1,
+    color: '#e2e8f0',
+    fontSize: 12,
+    paddingVertical: 2,
+  },
+  ingredientNumber: {
+    width: 44,
+    color: '#14b8a6',
+    fontSize: 12,
+    fontFamily: 'monospace',
+    fontWeight: '700',
+    textAlign: 'right',
+    paddingVertical: 2,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(20, 184, 166, 0.5)',
+  },
+  ingredientNumberPurple: {
+    color: '#d946ef',
+    borderBottomColor: 'rgba(217, 70, 239, 0.5)',
+  },
+  ingredientUnit: {
+    fontSize: 11,
+    fontFamily: 'monospace',
+    color: '#94a3b8',
+  },
+  ingredientRemove: {
+    fontSize: 12,
+    color: '#64748b',
+    marginLeft: 4,
+  },
+  templateButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 4,
+  },
+  templateButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    backgroundColor: 'rgba(71, 85, 105, 0.5)',
+    borderRadius: 8,
+  },
+  templateButtonText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#94a3b8',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 32,
+  },
+  saveButton: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(168, 85, 247, 0.5)',
+  },
+  saveButtonText: {
+    color: '#d8b4fe',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  addButton: {
+    flex: 1,
+    backgroundColor: '#0d9488',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  addButtonPressed: {
+    opacity: 0.8,
+  },
+  addButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+});
+
+export default CocktailBuilder;
@@ -0,0 +1,256 @@
+import React from 'react';
+import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { fromStandardDrinks, gramsOfAlcohol, StandardDrinkUnit, toStandardDrinks } from '../services/standardDrinks';
+import { formatTimeOfDay, parseTimeRange } from '../services/timeOfDay';
+import { isPlausibleDrink } from '../services/validation';
+import { ParseConfidence, ParsedDrink } from '../types';
+
+// A parsed drink waiting to be confirmed. Fields are kept as text so they
+// can be edited freely and only validated when the drink is accepted.
+export interface DraftDrink {
+  key: string;
+  name: string;
+  volumeText: string;
+  abvText: string;
+  timeText: string;
+  confidence: ParseConfidence;
+  assumptions: string[];
+  // Set while the user is typing a standard drink count, which drives volume
+  standardDrinksText?: string;
+}
+
+export interface ConfirmedDrink {
+  name: string;
+  volumeMl: number;
+  abv: number;
+  timestamp: number;
+  endTime?: number;
+}
+
+export const createDraft = (drink: ParsedDrink, index: number, now: number = Date.now()): DraftDrink => ({
+  key: `${now}-${index}`,
+  name: drink.name,
+  volumeText: drink.volumeMl.toString(),
+  abvText: drink.abv.toString(),
+  timeText: formatTimeOfDay(now),
+  confidence: drink.confidence,
+  assumptions: drink.assumptions,
+});
+
+// Null while any field doesn't make sense yet
+export const confirmDraft = (draft: DraftDrink, now: number = Date.now()): ConfirmedDrink | null => {
+  const volumeMl = Number(draft.volumeText);
+  const abv = Number(draft.abvText);
+  const time = parseTimeRange(draft.timeText, now);
+
+  if (!draft.name.trim() || !isPlausibleDrink(volumeMl, abv) || time === null) return null;
+  return { name: draft.name.trim(), volumeMl, abv, ...time };
+};
+
+interface DraftDrinkCardProps {
+  draft: DraftDrink;
+  unit: StandardDrinkUnit;
+  onChange: (changes: Partial<DraftDrink>) => void;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const CONFIDENCE_BADGES: Record<ParseConfidence, { label: string; colour: string }> = {
+  high: { label: 'Confident', colour: 'rgba(20, 184, 166, 0.2)' },
+  medium: { label: 'Best guess', colour: 'rgba(234, 179, 8, 0.2)' },
+  low: { label: 'Check this', colour: 'rgba(239, 68, 68, 0.25)' },
+};
+
+const DraftDrinkCard: React.FC<DraftDrinkCardProps> = ({ draft, unit, onChange, onAccept, onReject }) => {
+  const volumeMl = Number(draft.volumeText);
+  const abv = Number(draft.abvText);
+  const derivedStandardDrinks = volumeMl > 0 && abv > 0
+    ? toStandardDrinks(gramsOfAlcohol(volumeMl, abv), unit).toFixed(2)
+    : '';
+  const isValid = confirmDraft(draft) !== null;
+
+  // Editing the standard drink count back-calculates the volume at this ABV
+  const handleStandardDrinksChange = (text: string) => {
+    const count = Number(text);
+    const changes: Partial<DraftDrink> = { standardDrinksText: text };
+    if (count > 0 && abv > 0) {
+      changes.volumeText = Math.round(fromStandardDrinks(count, unit) / gramsOfAlcohol(1, abv)).toString();
+    }
+    onChange(changes);
+  };
+
+  return (
+    <View style={[styles.card, !isValid && styles.cardInvalid]}>
+      <View style={styles.nameRow}>
+        <TextInput
+          style={styles.nameInput}
+          value={draft.name}
+          onChangeText={name => onChange({ name })}
+          placeholder="Drink name"
+          placeholderTextColor="#64748b"
+        />
+        <View style={[styles.confidenceBadge, { backgroundColor: CONFIDENCE_BADGES[draft.confidence].colour }]}>
+          <Text style={styles.confidenceText}>{CONFIDENCE_BADGES[draft.confidence].label}</Text>
+        </View>
+      </View>
+
+      {draft.assumptions.map(assumption => (
+        <Text key={assumption} style={styles.assumptionText}>• {assumption}</Text>
+      ))}
+
+      <View style={styles.fieldsRow}>
+        <View style={styles.field}>
+          <Text style={styles.fieldLabel}>ml</Text>
+          <TextInput
+            style={styles.fieldInput}
+            value={draft.volumeText}
+            onChangeText={volumeText => onChange({ volumeText, standardDrinksText: undefined })}
+            keyboardType="numeric"
+          />
+        </View>
+        <View style={styles.field}>
+          <Text style={styles.fieldLabel}>ABV %</Text>
+          <TextInput
+            style={styles.fieldInput}
+            value={draft.abvText}
+            onChangeText={abvText => onChange({ abvText, standardDrinksText: undefined })}
+            keyboardType="numeric"
+          />
+        </View>
+        <View style={styles.field}>
+          <Text style={styles.fieldLabel}>{unit.shortLabel}</Text>
+          <TextInput
+            style={styles.fieldInput}
+            value={draft.standardDrinksText ?? derivedStandardDrinks}
+            onChangeText={handleStandardDrinksChange}
+            keyboardType="numeric"
+          />
+        </View>
+        <View style={styles.field}>
+          <Text style={styles.fieldLabel}>Time</Text>
+          <TextInput
+            style={styles.fieldInput}
+            value={draft.timeText}
+            onChangeText={timeText => onChange({ timeText })}
+            placeholder="HH:MM"
+            placeholderTextColor="#64748b"
+          />
+        </View>
+      </View>
+
+      <View style={styles.actions}>
+        <Pressable onPress={onReject} style={styles.rejectButton}>
+          <Text style={styles.rejectButtonText}>Discard</Text>
+        </Pressable>
+        <Pressable
+          onPress={onAccept}
+          disabled={!isValid}
+          style={[styles.acceptButton, !isValid && styles.acceptButtonDisabled]}
+        >
+          <Text style={styles.acceptButtonText}>Add</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#334155',
+    borderRadius: 12,
+    padding: 12,
+    gap: 8,
+  },
+  cardInvalid: {
+    borderColor: 'rgba(239, 68, 68, 0.5)',
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  nameInput: {
+    flex: 1,
+    color: '#e2e8f0',
+    fontSize: 14,
+    fontWeight: '600',
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#334155',
+  },
+  confidenceBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  confidenceText: {
+    fontSize: 9,
+    fontWeight: '700',
+    color: '#e2e8f0',
+    letterSpacing: 0.5,
+    textTransform: 'uppercase',
+  },
+  assumptionText: {
+    fontSize: 11,
+    color: '#94a3b8',
+    lineHeight: 15,
+  },
+  fieldsRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  field: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 9,
+    fontWeight: '700',
+    color: '#64748b',
+    letterSpacing: 1,
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  fieldInput: {
+    backgroundColor: '#0f172a',
+    color: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#334155',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  rejectButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  rejectButtonText: {
+    color: '#f87171',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  acceptButton: {
+    backgroundColor: '#0d9488',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  acceptButtonDisabled: {
+    opacity: 0.4,
+  },
+  acceptButtonText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+});
+
+export default DraftDrinkCard;
@@ -1,136 +1,112 @@
 import React, { useMemo } from 'react';
 import { Dimensions, StyleSheet, Text, View } from 'react-native';
 import { LineChart } from 'react-native-chart-kit';
+import { bacAt, BacSimulation, simulateBac } from '../services/bacEngine';
+import { BacUnit, bacUnitLabel, convertBac, formatBac } from '../services/legalLimits';
 import { Drink, Gender } from '../types';
 
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// When the curve drops back under the limit, if it ever goes over
+const limitInfo = (simulation: BacSimulation) => {
+  if (!simulation.peak) return null;
+
+  const peak = simulation.peak.bac;
+  if (simulation.belowLimitAt === null) return { status: 'under', peak };
+
+  return {
+    status: 'over',
+    peak,
+    time: simulation.belowLimitAt,
+    label: formatTime(simulation.belowLimitAt),
+    projected: simulation.projected,
+  };
+};
+
 interface DrinkGraphProps {
   drinks: Drink[];
+  // "What if" drinks, drawn as a second curve on top of the logged ones
+  plannedDrinks?: Drink[];
   firstHourBurn: number;
   subsequentHourBurn: number;
+  absorptionMinutes: number;
   weight: number;
   gender: Gender;
+  // Legal limit as BAC %
+  limit: number;
+  bacUnit: BacUnit;
+  // The jurisdiction's blood:breath ratio, for breath units
+  breathRatio?: number;
 }
 
-const DrinkGraph: React.FC<DrinkGraphProps> = ({ drinks, firstHourBurn, subsequentHourBurn, weight, gender }) => {
-  const points = useMemo(() => {
-    if (drinks.length === 0) return [];
-
-    // Sort drinks by time
-    const sortedDrinks = [...drinks].sort((a, b) => a.timestamp - b.timestamp);
-    const startTime = sortedDrinks[0].timestamp;
-
-    // Widmark Factor (r)
-    // Approximate volume of distribution: Men ~0.68, Women ~0.55
-    const r = gender === 'male' ? 0.68 : 0.55;
-
-    // Helper: Convert Net Standard Drinks to BAC %
-    const toBAC = (netSD: number) => {
-      const w = weight > 0 ? weight : 1;
-      return netSD / (w * r);
-    };
-
-    // Simulation config
-    const stepsInMinutes = 10
-    const stepMs = stepsInMinutes * 60 * 1000; // 5 min steps
-    const stepBurnFirstHour = (firstHourBurn / 60) * stepsInMinutes;
-    const stepBurnSubsequent = (subsequentHourBurn / 60) * stepsInMinutes;
-
-    let currentNetSD = 0;
-    let currentTime = startTime;
-    let timeSinceStart = 0;
-
-    const dataPoints: { time: number; bac: number; label: string }[] = [];
-
-    const initialDrinks = sortedDrinks.filter(d => Math.abs(d.timestamp - startTime) < 1000);
-    initialDrinks.forEach(d => currentNetSD += d.standardDrinks);
-
-    dataPoints.push({
-      time: startTime,
-      bac: toBAC(currentNetSD),
-      label: new Date(startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
-    });
-
-    const maxSteps = (24 * 60) / 5;
-    let steps = 0;
-
-    const lastDrinkTime = sortedDrinks[sortedDrinks.length - 1].timestamp;
-
-    while (steps < maxSteps) {
-      const nextTime = currentTime + stepMs;
-
-      const drinksInInterval = sortedDrinks.filter(d => d.timestamp > currentTime && d.timestamp <= nextTime);
-      for (const d of drinksInInterval) {
-        currentNetSD += d.standardDrinks;
-      }
-
-      const burnAmount = (timeSinceStart < 60 * 60 * 1000) ? stepBurnFirstHour : stepBurnSubsequent;
-
-      if (currentNetSD > 0) {
-        currentNetSD -= burnAmount;
-        if (currentNetSD < 0) currentNetSD = 0;
-      }
-
-      const currentBAC = toBAC(currentNetSD);
-
-      dataPoints.push({
-        time: nextTime,
-        bac: currentBAC,
-        label: new Date(nextTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
-      });
-
-      if (currentTime > lastDrinkTime && currentBAC <= 0.001) {
-        break;
-      }
-
-      currentTime = nextTime;
-      timeSinceStart += stepMs;
-      steps++;
-    }
-
-    return dataPoints;
-  }, [drinks, firstHourBurn, subsequentHourBurn, weight, gender]);
-
-  const soberTimeInfo = useMemo(() => {
-    if (points.length === 0) return null;
-
-    let peakIndex = 0;
-    for (let i = 1; i < points.length; i++) {
-      if (points[i].bac > points[peakIndex].bac) peakIndex = i;
-    }
-
-    const peakBAC = points[peakIndex].bac;
+const DrinkGraph: React.FC<DrinkGraphProps> = ({
+  drinks,
+  plannedDrinks = [],
+  firstHourBurn,
+  subsequentHourBurn,
+  absorptionMinutes,
+  weight,
+  gender,
+  limit,
+  bacUnit,
+  breathRatio,
+}) => {
+  const simulation = useMemo(
+    () => simulateBac(drinks, { weight, gender, firstHourBurn, subsequentHourBurn, absorptionMinutes }, { limit }),
+    [drinks, firstHourBurn, subsequentHourBurn, absorptionMinutes, weight, gender, limit]
+  );
 
-    if (peakBAC < 0.05) return { status: 'under', peak: peakBAC };
+  // Logged and planned drinks together
+  const projection = useMemo(
+    () => plannedDrinks.length > 0
+      ? simulateBac(
+        [...drinks, ...plannedDrinks],
+        { weight, gender, firstHourBurn, subsequentHourBurn, absorptionMinutes },
+        { limit }
+      )
+      : null,
+    [drinks, plannedDrinks, firstHourBurn, subsequentHourBurn, absorptionMinutes, weight, gender, limit]
+  );
 
-    for (let i = peakIndex; i < points.length; i++) {
-      if (points[i].bac <= 0.05) {
-        return { status: 'over', peak: peakBAC, time: points[i].time, label: points[i].label };
-      }
+  // The projection covers the logged curve's whole span, so when there is
+  // one the logged curve is read off at its times to keep the two aligned
+  const points = useMemo(() => {
+    if (!projection) {
+      return simulation.points.map(p => ({ time: p.time, bac: p.bac, projected: null, label: formatTime(p.time) }));
     }
+    return projection.points.map(p => ({
+      time: p.time,
+      bac: bacAt(simulation, p.time),
+      projected: p.bac,
+      label: formatTime(p.time),
+    }));
+  }, [simulation, projection]);
 
-    const lastP = points[points.length - 1];
-    return { status: 'over', peak: peakBAC, time: lastP.time, label: lastP.label, projected: true };
-  }, [points]);
+  const soberTimeInfo = useMemo(() => limitInfo(simulation), [simulation]);
+  const projectionInfo = useMemo(() => (projection ? limitInfo(projection) : null), [projection]);
 
   if (points.length < 2) return null;
 
   // Prepare chart data - sample every 5th point to avoid crowding
   const sampledPoints = points.length > 20 ? points.filter((_, i) => i % 5 === 0) : points;
-  const chartLabels = sampledPoints.map(p => {
-    const date = new Date(p.time);
-    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-  });
 
   const chartData = {
-    labels: [],//chartLabels.length > 0 ? chartLabels : ['Start'],
+    labels: [],
     datasets: [
       {
-        data: sampledPoints.map(p => Math.min(p.bac, 0.2)), // Cap at 0.2 for better scaling
+        data: sampledPoints.map(p => convertBac(Math.min(p.bac, 0.2), bacUnit, breathRatio)), // Cap at 0.2% for better scaling
         color: () => '#2dd4bf',
         strokeWidth: 2,
       },
+      ...(projection ? [{
+        data: sampledPoints.map(p => convertBac(Math.min(p.projected ?? 0, 0.2), bacUnit, breathRatio)),
+        color: () => '#a78bfa',
+        strokeWidth: 2,
+        strokeDasharray: [6, 4],
+      }] : []),
       {
-        data: Array(sampledPoints.length).fill(0.05), // Reference line at 0.05
+        data: Array(sampledPoints.length).fill(convertBac(limit, bacUnit, breathRatio)), // Reference line at the legal limit
         color: () => '#f97316',
         strokeWidth: 1,
         strokeDasharray: [4, 4],
@@ -138,6 +114,8 @@ const DrinkGraph: React.FC<DrinkGraphProps> = ({ drinks, firstHourBurn, subseque
     ],
   };
 
+  const limitLabel = formatBac(limit, bacUnit, breathRatio);
+
   const screenWidth = Dimensions.get('window').width;
   // Parent padding (16*2) + Container padding (16*2) = 64
   const chartWidth = screenWidth - 64;
@@ -146,37 +124,50 @@ const DrinkGraph: React.FC<DrinkGraphProps> = ({ drinks, firstHourBurn, subseque
     <View style={styles.container}>
       <View style={styles.header}>
         <View>
-          <Text style={styles.title}>Estimated BAC %</Text>
+          <Text style={styles.title}>Estimated BAC {bacUnitLabel(bacUnit)}</Text>
           {soberTimeInfo?.status === 'over' ? (
             <Text style={styles.timeLabel}>
-              Below 0.05 at <Text style={styles.timeLabelBold}>{soberTimeInfo.label}</Text>
+              {limit > 0 ? `Below ${limitLabel} at ` : 'Alcohol-free at '}
+              <Text style={styles.timeLabelBold}>{soberTimeInfo.label}</Text>
             </Text>
           ) : (
-            <Text style={styles.timeLabelGreen}>Likely under 0.05 limit</Text>
+            <Text style={styles.timeLabelGreen}>Likely under {limitLabel} limit</Text>
           )}
         </View>
         <View style={styles.peakContainer}>
           <Text style={[
             styles.peakValue,
-            { color: soberTimeInfo?.peak && soberTimeInfo.peak > 0.05 ? '#fed7aa' : '#14b8a6' }
+            { color: soberTimeInfo?.status === 'over' ? '#fed7aa' : '#14b8a6' }
           ]}>
-            {soberTimeInfo?.peak?.toFixed(3) || '0.000'}
+            {formatBac(soberTimeInfo?.peak ?? 0, bacUnit, breathRatio)}
           </Text>
           <Text style={styles.peakLabel}>Peak BAC</Text>
         </View>
       </View>
 
+      {projectionInfo && (
+        <View style={styles.projectionRow}>
+          <View style={styles.legendSwatch} />
+          <Text style={styles.projectionText}>
+            With your plan: peak {formatBac(projectionInfo.peak, bacUnit, breathRatio)}
+            {projectionInfo.status === 'over'
+              ? `, ${limit > 0 ? `below ${limitLabel}` : 'alcohol-free'} at ${projectionInfo.label}`
+              : `, stays under ${limitLabel}`}
+          </Text>
+        </View>
+      )}
+
       <LineChart
         data={chartData}
         width={chartWidth}
         height={200}
         yAxisLabel=""
-        yAxisSuffix="%"
+        yAxisSuffix={bacUnit === 'percent' ? '%' : ''}
         chartConfig={{
           backgroundColor: '#1e293b',
           backgroundGradientFrom: '#1e293b',
           backgroundGradientTo: '#0f172a',
-          decimalPlaces: 3,
+          decimalPlaces: bacUnit === 'gPerL' ? 2 : 3,
           color: () => '#64748b',
           labelColor: () => '#94a3b8',
           strokeWidth: 2,
@@ -257,6 +248,23 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase',
     marginTop: 2,
   },
+  projectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  legendSwatch: {
+    width: 14,
+    height: 0,
+    borderTopWidth: 2,
+    borderStyle: 'dashed',
+    borderColor: '#a78bfa',
+  },
+  projectionText: {
+    fontSize: 11,
+    color: '#c4b5fd',
+    fontFamily: 'monospace',
+  },
   chart: {
     marginVertical: 12,
     borderRadius: 8,
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useDrinks } from '../context/DrinksContext';
+import { PLAN_LIMITS, planSchedule, roundUpToStep } from '../services/planning';
+import { formatTimeOfDay, parseUpcomingTimeOfDay } from '../services/timeOfDay';
+
+interface DrinkPlannerProps {
+  // The drink set up in the calculator
+  name: string;
+  volume: number;
+  abv: number;
+}
+
+const inRange = (value: number, limits: { min: number; max: number }) =>
+  Number.isInteger(value) && value >= limits.min && value <= limits.max;
+
+// Adds a run of "what if" drinks, e.g. a schooner every 45 minutes from 7pm
+const DrinkPlanner: React.FC<DrinkPlannerProps> = ({ name, volume, abv }) => {
+  const { planDrinks } = useDrinks();
+  const [isOpen, setIsOpen] = useState(false);
+  const [countText, setCountText] = useState('4');
+  const [intervalText, setIntervalText] = useState('45');
+  const [startText, setStartText] = useState(() => formatTimeOfDay(roundUpToStep(Date.now(), 15)));
+
+  const count = Number(countText);
+  const interval = Number(intervalText);
+  const start = parseUpcomingTimeOfDay(startText, Date.now());
+  const isValid = inRange(count, PLAN_LIMITS.count)
+    && inRange(interval, PLAN_LIMITS.intervalMinutes)
+    && start !== null
+    && volume > 0 && abv > 0;
+  const schedule = isValid && start !== null ? planSchedule(start, interval, count) : [];
+
+  const handlePlan = () => {
+    if (!isValid) return;
+    planDrinks(name, volume, abv, schedule);
+    setIsOpen(false);
+  };
+
+  if (!isOpen) {
+    return (
+      <Pressable onPress={() => setIsOpen(true)} style={styles.openLink}>
+        <Text style={styles.openLinkText}>What if? Plan drinks ahead…</Text>
+      </Pressable>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Plan Ahead</Text>
+        <Pressable onPress={() => setIsOpen(false)} hitSlop={8}>
+          <Text style={styles.closeText}>✕</Text>
+        </Pressable>
+      </View>
+
+      <View style={styles.sentence}>
+        <TextInput
+          style={styles.numberInput}
+          value={countText}
+          onChangeText={setCountText}
+          keyboardType="numeric"
+        />
+        <Text style={styles.sentenceText}>× {name}, one every</Text>
+        <TextInput
+          style={styles.numberInput}
+          value={intervalText}
+          onChangeText={setIntervalText}
+          keyboardType="numeric"
+        />
+        <Text style={styles.sentenceText}>min from</Text>
+        <TextInput
+          style={[styles.numberInput, styles.timeInput]}
+          value={startText}
+          onChangeText={setStartText}
+          placeholder="HH:MM"
+          placeholderTextColor="#64748b"
+        />
+      </View>
+
+      <Text style={styles.scheduleText}>
+        {schedule.length > 0
+          ? schedule.map(formatTimeOfDay).join(' · ')
+          : `Up to ${PLAN_LIMITS.count.max} drinks, ${PLAN_LIMITS.intervalMinutes.min}–${PLAN_LIMITS.intervalMinutes.max} min apart`}
+      </Text>
+
+      <Pressable
+        onPress={handlePlan}
+        disabled={!isValid}
+        style={[styles.planButton, !isValid && styles.planButtonDisabled]}
+      >
+        <Text style={styles.planButtonText}>Add to Plan</Text>
+      </Pressable>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  openLink: {
+    alignItems: 'center',
+    marginTop: -16,
+    marginBottom: 24,
+  },
+  openLinkText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#a78bfa',
+  },
+  container: {
+    backgroundColor: 'rgba(30, 41, 59, 0.5)',
+    borderWidth: 1,
+    borderColor: 'rgba(168, 85, 247, 0.4)',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: -16,
+    marginBottom: 24,
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#cbd5e1',
+  },
+  closeText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  sentence: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+  },
+  sentenceText: {
+    fontSize: 12,
+    color: '#94a3b8',
+  },
+  numberInput: {
+    minWidth: 36,
+    fontFamily: 'monospace',
+    fontWeight: '700',
+    fontSize: 14,
+    color: '#d8b4fe',
+    textAlign: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(168, 85, 247, 0.5)',
+    paddingVertical: 2,
+  },
+  timeInput: {
+    minWidth: 56,
+  },
+  scheduleText: {
+    fontSize: 10,
+    fontFamily: 'monospace',
+    color: '#64748b',
+  },
+  planButton: {
+    backgroundColor: 'rgba(168, 85, 247, 0.25)',
+    borderWidth: 1,
+    borderColor: 'rgba(168, 85, 247, 0.5)',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  planButtonDisabled: {
+    opacity: 0.4,
+  },
+  planButtonText: {
+    color: '#e9d5ff',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+});
+
+export default DrinkPlanner;
@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import { Modal, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { gramsOfAlcohol, StandardDrinkUnit, toStandardDrinks } from '../services/standardDrinks';
+import { formatTimeRange, parseTimeRange } from '../services/timeOfDay';
+import { isPlausibleDrink, MAX_DRINK_VOLUME_ML } from '../services/validation';
+import { Drink, DrinkChanges } from '../types';
+
+interface EditDrinkSheetProps {
+  drink: Drink;
+  unit: StandardDrinkUnit;
+  onSave: (changes: DrinkChanges) => void;
+  onClose: () => void;
+}
+
+// Everything about a logged drink that can be corrected after the fact.
+// Fields are kept as text until saved, like parsed drafts.
+const EditDrinkSheet: React.FC<EditDrinkSheetProps> = ({ drink, unit, onSave, onClose }) => {
+  const originalTimeText = formatTimeRange(drink.timestamp, drink.endTime);
+  const [name, setName] = useState(drink.name);
+  const [volumeText, setVolumeText] = useState(drink.volumeMl.toString());
+  const [abvText, setAbvText] = useState(drink.abv.toString());
+  const [timeText, setTimeText] = useState(originalTimeText);
+  const [notes, setNotes] = useState(drink.notes ?? '');
+
+  const volumeMl = Number(volumeText);
+  const abv = Number(abvText);
+  // The time is only re-read if it was touched, so older drinks don't jump
+  // to a different day
+  const timeChanged = timeText.trim() !== originalTimeText;
+  const time = timeChanged ? parseTimeRange(timeText, Date.now()) : null;
+
+  const isValid = name.trim().length > 0
+    && isPlausibleDrink(volumeMl, abv)
+    && (!timeChanged || time !== null);
+
+  const standardDrinks = volumeMl > 0 && abv > 0
+    ? toStandardDrinks(gramsOfAlcohol(volumeMl, abv) * (drink.portion ?? 1), unit).toFixed(2)
+    : '–';
+
+  const handleSave = () => {
+    if (!isValid) return;
+
+    const changes: DrinkChanges = { name, volumeMl, abv, notes };
+    if (time) {
+      changes.timestamp = time.timestamp;
+      changes.endTime = time.endTime ?? null;
+    }
+    onSave(changes);
+  };
+
+  return (
+    <Modal visible transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable onPress={() => { }} style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Edit Drink</Text>
+            <Text style={styles.standardDrinks}>
+              {standardDrinks} <Text style={styles.standardDrinksUnit}>{unit.shortLabel}</Text>
+            </Text>
+          </View>
+
+          <Text style={styles.label}>Name</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="Drink name"
+            placeholderTextColor="#64748b"
+          />
+
+          <View style={styles.row}>
+            <View style={styles.field}>
+              <Text style={styles.label}>Volume (ml)</Text>
+              <TextInput
+                style={[styles.input, styles.numberInput, !(volumeMl > 0 && volumeMl <= MAX_DRINK_VOLUME_ML) && styles.inputInvalid]}
+                value={volumeText}
+                onChangeText={setVolumeText}
+                keyboardType="numeric"
+              />
+            </View>
+            <View style={styles.field}>
+              <Text style={styles.label}>ABV %</Text>
+              <TextInput
+                style={[styles.input, styles.numberInput, !(abv > 0 && abv <= 100) && styles.inputInvalid]}
+                value={abvText}
+                onChangeText={setAbvText}
+                keyboardType="numeric"
+              />
+            </View>
+            <View style={styles.field}>
+              <Text style={styles.label}>Time</Text>
+              <TextInput
+                style={[styles.input, styles.numberInput, timeChanged && time === null && styles.inputInvalid]}
+                value={timeText}
+                onChangeText={setTimeText}
+                placeholder="HH:MM"
+                placeholderTextColor="#64748b"
+              />
+            </View>
+          </View>
+          <Text style={styles.hint}>Give a range like 19:00-20:00 for a drink sipped over a while.</Text>
+
+          <Text style={styles.label}>Notes</Text>
+          <TextInput
+            style={[styles.input, styles.notesInput]}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Where, who with, how it went…"
+            placeholderTextColor="#64748b"
+            multiline
+          />
+
+          <View style={styles.actions}>
+            <Pressable onPress={onClose} style={styles.cancelButton}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              onPress={handleSave}
+              disabled={!isValid}
+              style={[styles.saveButton, !isValid && styles.saveButtonDisabled]}
+            >
+              <Text style={styles.saveButtonText}>Save</Text>
+            </Pressable>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#1e293b',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 32,
+    borderWidth: 1,
+    borderColor: '#334155',
+    gap: 6,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  standardDrinks: {
+    fontSize: 18,
+    fontWeight: '900',
+    color: '#14b8a6',
+  },
+  standardDrinksUnit: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#64748b',
+  },
+  label: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#94a3b8',
+    letterSpacing: 1,
+    textTransform: 'uppercase',
+    marginTop: 6,
+  },
+  input: {
+    backgroundColor: '#0f172a',
+    borderWidth: 1,
+    borderColor: '#334155',
+    borderRadius: 8,
+    color: '#ffffff',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+  },
+  inputInvalid: {
+    borderColor: 'rgba(239, 68, 68, 0.7)',
+  },
+  numberInput: {
+    fontFamily: 'monospace',
+  },
+  notesInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  field: {
+    flex: 1,
+  },
+  hint: {
+    fontSize: 10,
+    color: '#64748b',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#334155',
+  },
+  cancelButtonText: {
+    color: '#94a3b8',
+    fontWeight: '700',
+    fontSize: 14,
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: '#14b8a6',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.4,
+  },
+  saveButtonText: {
+    color: '#ffffff',
+    fontWeight: '700',
+    fontSize: 14,
+  },
+});
+
+export default EditDrinkSheet;
@@ -0,0 +1,83 @@
+import React, { useMemo } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { useDrinks } from '../context/DrinksContext';
+import { useSettings } from '../context/SettingsContext';
+import { buildFavourites } from '../services/favourites';
+import { gramsOfAlcohol, toStandardDrinks } from '../services/standardDrinks';
+import { NewDrinkOptions } from '../types';
+
+interface FavouritesStripProps {
+  onAddDrink: (name: string, volume: number, abv: number, options?: NewDrinkOptions) => void;
+}
+
+// One tap logs the drink again at the current time
+const FavouritesStrip: React.FC<FavouritesStripProps> = ({ onAddDrink }) => {
+  const { drinks, sessions } = useDrinks();
+  const { unit } = useSettings();
+
+  const favourites = useMemo(() => buildFavourites(drinks, sessions), [drinks, sessions]);
+
+  if (favourites.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Your Usuals</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.strip}>
+        {favourites.map(favourite => (
+          <Pressable
+            key={favourite.key}
+            onPress={() => onAddDrink(favourite.name, favourite.volumeMl, favourite.abv, { portion: favourite.portion })}
+            style={({ pressed }) => [styles.chip, pressed && styles.chipPressed]}
+          >
+            <Text style={styles.chipName} numberOfLines={1}>+ {favourite.name}</Text>
+            <Text style={styles.chipDetail}>
+              {toStandardDrinks(gramsOfAlcohol(favourite.volumeMl, favourite.abv) * (favourite.portion ?? 1), unit).toFixed(1)} {unit.shortLabel}
+              {favourite.count > 1 ? ` · ×${favourite.count}` : ''}
+            </Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 10,
+    color: '#94a3b8',
+    fontWeight: '700',
+    letterSpacing: 1.5,
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  strip: {
+    gap: 8,
+  },
+  chip: {
+    maxWidth: 180,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: 'rgba(30, 41, 59, 0.8)',
+    borderWidth: 1,
+    borderColor: 'rgba(20, 184, 166, 0.4)',
+    borderRadius: 10,
+  },
+  chipPressed: {
+    opacity: 0.7,
+  },
+  chipName: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#5eead4',
+  },
+  chipDetail: {
+    fontSize: 10,
+    color: '#64748b',
+    marginTop: 2,
+  },
+});
+
+export default FavouritesStrip;
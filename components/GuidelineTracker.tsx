@@ -0,0 +1,301 @@
+import React, { useMemo, useState } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { useProfile } from '../context/ProfileContext';
+import { useSettings } from '../context/SettingsContext';
+import {
+  CUSTOM_GUIDELINE_ID,
+  dailyTotals,
+  GuidelineLimits,
+  guidelineLabel,
+  guidelineLimits,
+  guidelineProgress,
+  GUIDELINES,
+} from '../services/guidelines';
+import { StandardDrinkUnit, toStandardDrinks } from '../services/standardDrinks';
+import { Drink } from '../types';
+
+interface GuidelineTrackerProps {
+  // Every drink on record: the current session and history
+  drinks: Drink[];
+  now: number;
+}
+
+const BAR_HEIGHT = 48;
+
+const GUIDELINE_OPTIONS = [
+  ...GUIDELINES.map(g => ({ id: g.id, label: g.label })),
+  { id: CUSTOM_GUIDELINE_ID, label: 'Custom' },
+];
+
+const formatAmount = (grams: number, unit: StandardDrinkUnit) =>
+  `${toStandardDrinks(grams, unit).toFixed(1)} ${unit.shortLabel}`;
+
+const weekday = (dayStart: number) =>
+  new Date(dayStart).toLocaleDateString([], { weekday: 'narrow' });
+
+interface ProgressRowProps {
+  label: string;
+  grams: number;
+  limitGrams: number | null;
+  unit: StandardDrinkUnit;
+}
+
+const ProgressRow: React.FC<ProgressRowProps> = ({ label, grams, limitGrams, unit }) => {
+  const isOver = limitGrams !== null && grams > limitGrams;
+  const share = limitGrams ? Math.min(1, grams / limitGrams) : 0;
+
+  return (
+    <View style={styles.progressRow}>
+      <View style={styles.progressHeader}>
+        <Text style={styles.progressLabel}>{label}</Text>
+        <Text style={[styles.progressValue, isOver && styles.overText]}>
+          {formatAmount(grams, unit)}
+          {limitGrams !== null ? ` / ${Number(toStandardDrinks(limitGrams, unit).toFixed(1))}` : ' · no limit'}
+        </Text>
+      </View>
+      {limitGrams !== null && (
+        <View style={styles.track}>
+          <View style={[styles.fill, isOver && styles.fillOver, { width: `${share * 100}%` }]} />
+        </View>
+      )}
+    </View>
+  );
+};
+
+// Today, the rolling week and the last seven days against the chosen guideline
+const GuidelineTracker: React.FC<GuidelineTrackerProps> = ({ drinks, now }) => {
+  const { profile } = useProfile();
+  const { settings, updateSettings, unit } = useSettings();
+  const [isEditing, setIsEditing] = useState(false);
+
+  const limits = guidelineLimits(settings.guidelineId, profile.gender, settings.customGuideline);
+  const progress = useMemo(() => guidelineProgress(drinks, limits, now), [drinks, limits, now]);
+  const days = useMemo(() => dailyTotals(drinks, 7, now), [drinks, now]);
+
+  // Columns are scaled so the daily limit, if there is one, is always on screen
+  const scale = Math.max(limits.dailyGrams ?? 0, ...days.map(d => d.grams), 1);
+
+  // Custom limits step a whole standard drink at a time; 0 turns a limit off
+  const stepCustom = (key: keyof GuidelineLimits, delta: number) => {
+    const current = Math.round(toStandardDrinks(settings.customGuideline[key] ?? 0, unit));
+    const next = Math.max(0, current + delta);
+    updateSettings({
+      customGuideline: { ...settings.customGuideline, [key]: next > 0 ? next * unit.grams : null },
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{guidelineLabel(settings.guidelineId)} Guidelines</Text>
+        <Pressable onPress={() => setIsEditing(!isEditing)} hitSlop={8}>
+          <Text style={styles.editToggle}>{isEditing ? 'Done' : 'Change'}</Text>
+        </Pressable>
+      </View>
+
+      {isEditing && (
+        <View style={styles.editor}>
+          <View style={styles.chips}>
+            {GUIDELINE_OPTIONS.map(option => (
+              <Pressable
+                key={option.id}
+                onPress={() => updateSettings({ guidelineId: option.id })}
+                style={[styles.chip, settings.guidelineId === option.id && styles.chipActive]}
+              >
+                <Text style={[styles.chipText, settings.guidelineId === option.id && styles.chipTextActive]}>
+                  {option.label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {settings.guidelineId === CUSTOM_GUIDELINE_ID && (
+            ([['dailyGrams', 'Per Day'], ['weeklyGrams', 'Per Week']] as const).map(([key, label]) => (
+              <View key={key} style={styles.customRow}>
+                <Text style={styles.progressLabel}>{label}</Text>
+                <Text style={styles.progressValue}>
+                  {settings.customGuideline[key] !== null
+                    ? formatAmount(settings.customGuideline[key] ?? 0, unit)
+                    : 'No limit'}
+                </Text>
+                <View style={styles.stepper}>
+                  <Pressable onPress={() => stepCustom(key, -1)} style={styles.stepButton}>
+                    <Text style={styles.stepButtonText}>−</Text>
+                  </Pressable>
+                  <Pressable onPress={() => stepCustom(key, 1)} style={styles.stepButton}>
+                    <Text style={styles.stepButtonText}>+</Text>
+                  </Pressable>
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+      )}
+
+      <ProgressRow label="Today" grams={progress.todayGrams} limitGrams={limits.dailyGrams} unit={unit} />
+      <ProgressRow label="Last 7 Days" grams={progress.weekGrams} limitGrams={limits.weeklyGrams} unit={unit} />
+
+      <View style={styles.columns}>
+        {days.map(day => {
+          const isOver = limits.dailyGrams !== null && day.grams > limits.dailyGrams;
+          return (
+            <View key={day.dayStart} style={styles.column}>
+              <View style={styles.columnTrack}>
+                <View
+                  style={[
+                    styles.columnFill,
+                    isOver && styles.fillOver,
+                    { height: (Math.min(day.grams, scale) / scale) * BAR_HEIGHT },
+                  ]}
+                />
+              </View>
+              <Text style={styles.columnLabel}>{weekday(day.dayStart)}</Text>
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(30, 41, 59, 0.8)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(71, 85, 105, 0.5)',
+    padding: 16,
+    marginBottom: 24,
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#94a3b8',
+    letterSpacing: 1.5,
+    textTransform: 'uppercase',
+  },
+  editToggle: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#14b8a6',
+  },
+  editor: {
+    gap: 10,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    backgroundColor: '#334155',
+  },
+  chipActive: {
+    backgroundColor: 'rgba(20, 184, 166, 0.2)',
+    borderWidth: 1,
+    borderColor: 'rgba(20, 184, 166, 0.5)',
+  },
+  chipText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#94a3b8',
+  },
+  chipTextActive: {
+    color: '#5eead4',
+  },
+  customRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepper: {
+    flexDirection: 'row',
+    gap: 8,
+    marginLeft: 'auto',
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 6,
+    backgroundColor: '#334155',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#14b8a6',
+  },
+  progressRow: {
+    gap: 6,
+  },
+  progressHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  progressLabel: {
+    fontSize: 11,
+    color: '#94a3b8',
+  },
+  progressValue: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#14b8a6',
+    fontFamily: 'monospace',
+  },
+  overText: {
+    color: '#fca5a5',
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#334155',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 3,
+    backgroundColor: '#14b8a6',
+  },
+  fillOver: {
+    backgroundColor: '#f87171',
+  },
+  columns: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  column: {
+    alignItems: 'center',
+    gap: 4,
+  },
+  columnTrack: {
+    width: 18,
+    height: BAR_HEIGHT,
+    justifyContent: 'flex-end',
+    borderRadius: 4,
+    backgroundColor: 'rgba(51, 65, 85, 0.5)',
+    overflow: 'hidden',
+  },
+  columnFill: {
+    width: '100%',
+    borderRadius: 4,
+    backgroundColor: '#14b8a6',
+  },
+  columnLabel: {
+    fontSize: 9,
+    color: '#64748b',
+    fontFamily: 'monospace',
+  },
+});
+
+export default GuidelineTracker;
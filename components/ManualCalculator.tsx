@@ -1,25 +1,56 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
-import { COMMON_ABV, COMMON_SIZES } from '../types';
+import { useLibrary } from '../context/LibraryContext';
+import { useSettings } from '../context/SettingsContext';
+import { CatalogueEntry, CatalogueServe } from '../services/beverageCatalogue';
+import { presetLabelFor } from '../services/presets';
+import { gramsOfAlcohol, toStandardDrinks } from '../services/standardDrinks';
+import { isPlausibleDrink } from '../services/validation';
+import { DRINK_PORTIONS, DRINKING_DURATIONS, NewDrinkOptions } from '../types';
+import CatalogueSearch from './CatalogueSearch';
+import DrinkPlanner from './DrinkPlanner';
+import FavouritesStrip from './FavouritesStrip';
+import OpenBottles from './OpenBottles';
+import PresetEditor from './PresetEditor';
 
 interface ManualCalculatorProps {
-  onAddDrink: (name: string, volume: number, abv: number) => void;
+  onAddDrink: (name: string, volume: number, abv: number, options?: NewDrinkOptions) => void;
 }
 
 const ManualCalculator: React.FC<ManualCalculatorProps> = ({ onAddDrink }) => {
+  const { unit } = useSettings();
+  const { presets } = useLibrary();
   const [volume, setVolume] = useState<number>(425); // Default to Schooner
   const [abv, setAbv] = useState<number>(4.8); // Default to Full Strength
   const [stdDrinks, setStdDrinks] = useState<number>(0);
+  const [selectedEntry, setSelectedEntry] = useState<CatalogueEntry | null>(null);
+  const [editingSizes, setEditingSizes] = useState(false);
+  const [editingAbvs, setEditingAbvs] = useState(false);
+  // Minutes the drink will be sipped over, starting now
+  const [durationMinutes, setDurationMinutes] = useState(0);
+  // Share of the serve actually drunk
+  const [portion, setPortion] = useState(1);
+  const [drunkMlText, setDrunkMlText] = useState('');
+
+  // A catalogue pick only names the drink while its ABV is still in use
+  const activeEntry = selectedEntry && selectedEntry.abv === abv ? selectedEntry : null;
 
   useEffect(() => {
-    // AUS Standard Drink Formula: Vol(L) * ABV * 0.789
-    const calculated = (volume / 1000) * abv * 0.789;
+    const calculated = toStandardDrinks(gramsOfAlcohol(volume, abv) * portion, unit);
     setStdDrinks(calculated);
-  }, [volume, abv]);
+  }, [volume, abv, portion, unit]);
 
   const generatedName = useMemo(() => {
-    const sizeLabel = COMMON_SIZES.find(s => s.volume === volume)?.label;
-    const abvLabel = COMMON_ABV.find(a => a.value === abv)?.label;
+    const sizeLabel = presetLabelFor(presets.size, volume);
+
+    if (activeEntry) {
+      const serveLabel = activeEntry.serves.find(s => s.volumeMl === volume)?.label
+        ?? sizeLabel?.replace(/\s*\(.*?\)\s*/g, '')
+        ?? `${volume}ml`;
+      return `${serveLabel} of ${activeEntry.name}`;
+    }
+
+    const abvLabel = presetLabelFor(presets.abv, abv);
 
     // Smart naming logic
     if (sizeLabel && abvLabel) {
@@ -31,10 +62,50 @@ const ManualCalculator: React.FC<ManualCalculatorProps> = ({ onAddDrink }) => {
     if (abvLabel) return `${volume}ml ${abvLabel}`;
 
     return `Custom Drink (${volume}ml @ ${abv}%)`;
-  }, [volume, abv]);
+  }, [volume, abv, activeEntry, presets]);
+
+  // What an open bottle of this would be called
+  const bottleName = activeEntry?.name ?? presetLabelFor(presets.abv, abv) ?? `${abv}% drink`;
+
+  const handleCatalogueSelect = (entry: CatalogueEntry | null, serve?: CatalogueServe) => {
+    setSelectedEntry(entry);
+    if (!entry) return;
+
+    setAbv(entry.abv);
+    setVolume((serve ?? entry.serves[0]).volumeMl);
+  };
+
+  const canAdd = isPlausibleDrink(volume, abv);
 
   const handleAdd = () => {
-    onAddDrink(generatedName, volume, abv);
+    if (!canAdd) return;
+    const options: NewDrinkOptions = { portion };
+    if (durationMinutes > 0) {
+      const now = Date.now();
+      options.timestamp = now;
+      options.endTime = now + durationMinutes * 60 * 1000;
+    }
+    onAddDrink(generatedName, volume, abv, options);
+
+    // A half-finished drink is a one-off
+    setPortion(1);
+    setDrunkMlText('');
+  };
+
+  const handlePortionChange = (value: number) => {
+    setPortion(value);
+    setDrunkMlText('');
+  };
+
+  // Millilitres actually drunk, as a share of the serve
+  const handleDrunkMlChange = (text: string) => {
+    setDrunkMlText(text);
+    const drunk = parseFloat(text);
+    if (drunk > 0 && volume > 0) {
+      setPortion(Math.min(1, drunk / volume));
+    } else {
+      setPortion(1);
+    }
   };
 
   const handleVolumeChange = (text: string) => {
@@ -57,12 +128,23 @@ const ManualCalculator: React.FC<ManualCalculatorProps> = ({ onAddDrink }) => {
 
   return (
     <ScrollView style={styles.container}>
+      {/* Recent & Frequent Drinks */}
+      <FavouritesStrip onAddDrink={onAddDrink} />
+
+      {/* Catalogue Search */}
+      <CatalogueSearch
+        selected={activeEntry}
+        volume={volume}
+        abv={abv}
+        onSelect={handleCatalogueSelect}
+      />
+
       {/* Result Preview */}
       <View style={styles.resultCard}>
         <Text style={styles.resultLabel}>Calculated Impact</Text>
         <View style={styles.resultValue}>
           <Text style={styles.resultNumber}>{stdDrinks.toFixed(2)}</Text>
-          <Text style={styles.resultUnit}>SD</Text>
+          <Text style={styles.resultUnit}>{unit.shortLabel}</Text>
         </View>
         <Text style={styles.resultName}>{generatedName}</Text>
       </View>
@@ -70,7 +152,12 @@ const ManualCalculator: React.FC<ManualCalculatorProps> = ({ onAddDrink }) => {
       {/* Volume Controls */}
       <View style={styles.controlCard}>
         <View style={styles.controlHeader}>
-          <Text style={styles.controlLabel}>Volume</Text>
+          <View style={styles.labelRow}>
+            <Text style={styles.controlLabel}>Volume</Text>
+            <Pressable onPress={() => setEditingSizes(!editingSizes)} hitSlop={8}>
+              <Text style={styles.editToggle}>{editingSizes ? 'Done' : 'Edit'}</Text>
+            </Pressable>
+          </View>
           <View style={styles.inputContainer}>
             <TextInput
               style={styles.controlInput}
@@ -84,33 +171,42 @@ const ManualCalculator: React.FC<ManualCalculatorProps> = ({ onAddDrink }) => {
           </View>
         </View>
 
-        <View style={styles.buttonGrid}>
-          {COMMON_SIZES.map((size) => (
-            <Pressable
-              key={size.label}
-              onPress={() => setVolume(size.volume)}
-              style={[
-                styles.sizeButton,
-                volume === size.volume && styles.sizeButtonActive
-              ]}
-            >
-              <Text
+        {editingSizes ? (
+          <PresetEditor kind="size" unitLabel="ml" currentValue={volume} />
+        ) : (
+          <View style={styles.buttonGrid}>
+            {presets.size.filter(p => !p.hidden).map((size) => (
+              <Pressable
+                key={size.id}
+                onPress={() => setVolume(size.value)}
                 style={[
-                  styles.sizeButtonText,
-                  volume === size.volume && styles.sizeButtonTextActive
+                  styles.sizeButton,
+                  volume === size.value && styles.sizeButtonActive
                 ]}
               >
-                {size.label}
-              </Text>
-            </Pressable>
-          ))}
-        </View>
+                <Text
+                  style={[
+                    styles.sizeButtonText,
+                    volume === size.value && styles.sizeButtonTextActive
+                  ]}
+                >
+                  {size.label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        )}
       </View>
 
       {/* ABV Controls */}
       <View style={styles.controlCard}>
         <View style={styles.controlHeader}>
-          <Text style={styles.controlLabel}>Alcohol Content</Text>
+          <View style={styles.labelRow}>
+            <Text style={styles.controlLabel}>Alcohol Content</Text>
+            <Pressable onPress={() => setEditingAbvs(!editingAbvs)} hitSlop={8}>
+              <Text style={styles.editToggle}>{editingAbvs ? 'Done' : 'Edit'}</Text>
+            </Pressable>
+          </View>
           <View style={styles.inputContainer}>
             <TextInput
               style={[styles.controlInput, styles.controlInputPurple]}
@@ -124,23 +220,89 @@ const ManualCalculator: React.FC<ManualCalculatorProps> = ({ onAddDrink }) => {
           </View>
         </View>
 
-        <View style={styles.buttonGrid}>
-          {COMMON_ABV.map((item) => (
+        {editingAbvs ? (
+          <PresetEditor kind="abv" unitLabel="%" currentValue={abv} />
+        ) : (
+          <View style={styles.buttonGrid}>
+            {presets.abv.filter(p => !p.hidden).map((item) => (
+              <Pressable
+                key={item.id}
+                onPress={() => setAbv(item.value)}
+                style={[
+                  styles.abvButton,
+                  abv === item.value && styles.abvButtonActive
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.abvButtonText,
+                    abv === item.value && styles.abvButtonTextActive
+                  ]}
+                >
+                  {item.label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        )}
+      </View>
+
+      {/* Portion Drunk */}
+      <View style={styles.durationRow}>
+        <Text style={styles.durationLabel}>How much of it</Text>
+        <View style={styles.durationButtons}>
+          {DRINK_PORTIONS.map(p => (
+            <Pressable
+              key={p.label}
+              onPress={() => handlePortionChange(p.value)}
+              style={[
+                styles.durationButton,
+                !drunkMlText && portion === p.value && styles.durationButtonActive
+              ]}
+            >
+              <Text
+                style={[
+                  styles.durationButtonText,
+                  !drunkMlText && portion === p.value && styles.durationButtonTextActive
+                ]}
+              >
+                {p.label}
+              </Text>
+            </Pressable>
+          ))}
+          <View style={styles.drunkMlContainer}>
+            <TextInput
+              style={styles.drunkMlInput}
+              value={drunkMlText}
+              onChangeText={handleDrunkMlChange}
+              keyboardType="numeric"
+              placeholder="or ml drunk"
+              placeholderTextColor="#64748b"
+            />
+          </View>
+        </View>
+      </View>
+
+      {/* Drinking Duration */}
+      <View style={styles.durationRow}>
+        <Text style={styles.durationLabel}>Drinking it</Text>
+        <View style={styles.durationButtons}>
+          {DRINKING_DURATIONS.map(d => (
             <Pressable
-              key={item.label}
-              onPress={() => setAbv(item.value)}
+              key={d.minutes}
+              onPress={() => setDurationMinutes(d.minutes)}
               style={[
-                styles.abvButton,
-                abv === item.value && styles.abvButtonActive
+                styles.durationButton,
+                durationMinutes === d.minutes && styles.durationButtonActive
               ]}
             >
               <Text
                 style={[
-                  styles.abvButtonText,
-                  abv === item.value && styles.abvButtonTextActive
+                  styles.durationButtonText,
+                  durationMinutes === d.minutes && styles.durationButtonTextActive
                 ]}
               >
-                {item.label}
+                {d.minutes > 0 ? `Over ${d.label}` : d.label}
               </Text>
             </Pressable>
           ))}
@@ -149,13 +311,21 @@ const ManualCalculator: React.FC<ManualCalculatorProps> = ({ onAddDrink }) => {
 
       <Pressable
         onPress={handleAdd}
+        disabled={!canAdd}
         style={({ pressed }) => [
           styles.addButton,
-          pressed && styles.addButtonPressed
+          pressed && styles.addButtonPressed,
+          !canAdd && styles.addButtonDisabled
         ]}
       >
         <Text style={styles.addButtonText}>+ Add Drink</Text>
       </Pressable>
+
+      {/* What If Planning */}
+      <DrinkPlanner name={generatedName} volume={volume} abv={abv} />
+
+      {/* Open Bottles */}
+      <OpenBottles name={bottleName} volume={volume} abv={abv} />
     </ScrollView>
   );
 };
@@ -215,11 +385,21 @@ const styles = StyleSheet.create({
     alignItems: 'flex-end',
     marginBottom: 16,
   },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
   controlLabel: {
     fontSize: 14,
     fontWeight: '700',
     color: '#cbd5e1',
   },
+  editToggle: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#14b8a6',
+  },
   controlInput: {
     fontFamily: 'monospace',
     fontWeight: '700',
@@ -300,6 +480,53 @@ const styles = StyleSheet.create({
   abvButtonTextActive: {
     color: '#d8b4fe',
   },
+  durationRow: {
+    marginBottom: 16,
+    gap: 8,
+  },
+  durationLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#94a3b8',
+  },
+  durationButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  durationButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    backgroundColor: 'rgba(71, 85, 105, 0.5)',
+    borderRadius: 8,
+  },
+  durationButtonActive: {
+    backgroundColor: 'rgba(20, 184, 166, 0.2)',
+    borderWidth: 1,
+    borderColor: 'rgba(20, 184, 166, 0.5)',
+  },
+  durationButtonText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#94a3b8',
+  },
+  durationButtonTextActive: {
+    color: '#5eead4',
+  },
+  drunkMlContainer: {
+    paddingHorizontal: 10,
+    paddingVertical: 2,
+    backgroundColor: 'rgba(71, 85, 105, 0.5)',
+    borderRadius: 8,
+    justifyContent: 'center',
+  },
+  drunkMlInput: {
+    minWidth: 80,
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#5eead4',
+    paddingVertical: 4,
+  },
   addButton: {
     backgroundColor: '#0d9488',
     paddingVertical: 16,
@@ -310,6 +537,9 @@ const styles = StyleSheet.create({
   addButtonPressed: {
     opacity: 0.8,
   },
+  addButtonDisabled: {
+    opacity: 0.4,
+  },
   addButtonText: {
     color: '#ffffff',
     fontSize: 16,
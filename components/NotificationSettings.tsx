@@ -0,0 +1,173 @@
+import React from 'react';
+import { Alert, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useSettings } from '../context/SettingsContext';
+import { formatBac } from '../services/legalLimits';
+import { requestNotificationPermission } from '../services/notifications';
+import { NotificationSettings as NotificationPrefs } from '../services/settings';
+import { toStandardDrinks } from '../services/standardDrinks';
+
+// Highest session cap offered, in standard drinks
+const MAX_CAP_DRINKS = 20;
+
+// Opt-in reminders for the session's BAC milestones
+const NotificationSettings: React.FC = () => {
+  const { settings, updateSettings, unit, jurisdiction, limit } = useSettings();
+  const prefs = settings.notifications;
+
+  const update = (changes: Partial<NotificationPrefs>) => {
+    updateSettings({ notifications: { ...prefs, ...changes } });
+  };
+
+  const toggleEnabled = async () => {
+    if (prefs.enabled) {
+      update({ enabled: false });
+      return;
+    }
+
+    const granted = await requestNotificationPermission().catch(() => false);
+    if (granted) {
+      update({ enabled: true });
+    } else {
+      Alert.alert('Notifications Off', 'Allow notifications for this app in your device settings to get reminders.');
+    }
+  };
+
+  const capDrinks = prefs.sessionCapGrams === null ? 0 : Math.round(toStandardDrinks(prefs.sessionCapGrams, unit));
+  const setCapDrinks = (drinks: number) => {
+    const clamped = Math.max(0, Math.min(MAX_CAP_DRINKS, drinks));
+    update({ sessionCapGrams: clamped > 0 ? clamped * unit.grams : null });
+  };
+
+  // With a zero limit the two are the same reminder
+  const options: { key: 'underLimit' | 'sober'; label: string }[] = [
+    ...(limit > 0 ? [{ key: 'underLimit' as const, label: `Under ${formatBac(limit, settings.bacUnit, jurisdiction.breathRatio)}` }] : []),
+    { key: 'sober', label: 'Alcohol-free' },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <View style={styles.labelColumn}>
+          <Text style={styles.label}>Reminders</Text>
+          <Text style={styles.hint}>Scheduled on this device, even with the app closed</Text>
+        </View>
+        <Pressable onPress={toggleEnabled} style={[styles.chip, prefs.enabled && styles.chipActive]}>
+          <Text style={[styles.chipText, prefs.enabled && styles.chipTextActive]}>
+            {prefs.enabled ? 'On' : 'Off'}
+          </Text>
+        </Pressable>
+      </View>
+
+      {prefs.enabled && (
+        <>
+          <View style={styles.chips}>
+            {options.map(option => (
+              <Pressable
+                key={option.key}
+                onPress={() => update({ [option.key]: !prefs[option.key] })}
+                style={[styles.chip, prefs[option.key] && styles.chipActive]}
+              >
+                <Text style={[styles.chipText, prefs[option.key] && styles.chipTextActive]}>
+                  {prefs[option.key] ? '✓ ' : ''}{option.label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <View style={styles.row}>
+            <View style={styles.labelColumn}>
+              <Text style={styles.label}>Session Cap</Text>
+              <Text style={styles.value}>
+                {capDrinks > 0 ? `${capDrinks} ${unit.shortLabel}` : 'None'}
+              </Text>
+            </View>
+            <View style={styles.stepper}>
+              <Pressable onPress={() => setCapDrinks(capDrinks - 1)} style={styles.stepButton}>
+                <Text style={styles.stepButtonText}>−</Text>
+              </Pressable>
+              <Pressable onPress={() => setCapDrinks(capDrinks + 1)} style={styles.stepButton}>
+                <Text style={styles.stepButtonText}>+</Text>
+              </Pressable>
+            </View>
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderTopWidth: 1,
+    borderTopColor: '#334155',
+    paddingTop: 16,
+    marginTop: 16,
+    gap: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  labelColumn: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 11,
+    color: '#94a3b8',
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 10,
+    color: '#64748b',
+  },
+  value: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#14b8a6',
+    fontFamily: 'monospace',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    backgroundColor: '#334155',
+  },
+  chipActive: {
+    backgroundColor: 'rgba(20, 184, 166, 0.2)',
+    borderWidth: 1,
+    borderColor: 'rgba(20, 184, 166, 0.5)',
+  },
+  chipText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#94a3b8',
+  },
+  chipTextActive: {
+    color: '#5eead4',
+  },
+  stepper: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 6,
+    backgroundColor: '#334155',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#14b8a6',
+  },
+});
+
+export default NotificationSettings;
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { useDrinks } from '../context/DrinksContext';
+import { OpenBottle, remainingMl } from '../services/openBottles';
+
+interface OpenBottlesProps {
+  // What's set up in the calculator, used when opening a new bottle
+  name: string;
+  volume: number;
+  abv: number;
+}
+
+const POUR_SIZES = [100, 150, 200];
+
+interface BottleCardProps {
+  bottle: OpenBottle;
+  forMe: boolean;
+  onPour: (volumeMl: number) => void;
+  onClose: () => void;
+}
+
+const BottleCard: React.FC<BottleCardProps> = ({ bottle, forMe, onPour, onClose }) => {
+  const left = remainingMl(bottle);
+  const leftShare = bottle.volumeMl > 0 ? left / bottle.volumeMl : 0;
+
+  return (
+    <View style={styles.bottleCard}>
+      <View style={styles.bottleHeader}>
+        <Text style={styles.bottleName}>{bottle.name} · {bottle.abv}%</Text>
+        <Pressable onPress={onClose} hitSlop={8}>
+          <Text style={styles.closeText}>{left > 0 ? 'Close' : 'Finished ✓'}</Text>
+        </Pressable>
+      </View>
+
+      <View style={styles.levelTrack}>
+        <View style={[styles.levelFill, { width: `${Math.round(leftShare * 100)}%` }]} />
+      </View>
+      <Text style={styles.levelText}>{Math.round(left)}ml of {bottle.volumeMl}ml left</Text>
+
+      {left > 0 && (
+        <View style={styles.pourButtons}>
+          {POUR_SIZES.filter(size => size < left).map(size => (
+            <Pressable key={size} onPress={() => onPour(size)} style={styles.pourButton}>
+              <Text style={styles.pourButtonText}>{size}ml</Text>
+            </Pressable>
+          ))}
+          <Pressable onPress={() => onPour(left)} style={styles.pourButton}>
+            <Text style={styles.pourButtonText}>The rest ({Math.round(left)}ml)</Text>
+          </Pressable>
+        </View>
+      )}
+      {left > 0 && !forMe && (
+        <Text style={styles.hintText}>Pours for someone else aren&apos;t added to your session.</Text>
+      )}
+    </View>
+  );
+};
+
+const OpenBottles: React.FC<OpenBottlesProps> = ({ name, volume, abv }) => {
+  const { openBottles, openBottle, pourFromBottle, closeBottle } = useDrinks();
+  const [forMe, setForMe] = useState(true);
+
+  const canOpen = volume > 0 && abv > 0;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Open Bottles</Text>
+        {openBottles.length > 0 && (
+          <View style={styles.pourForButtons}>
+            <Pressable
+              onPress={() => setForMe(true)}
+              style={[styles.pourForButton, forMe && styles.pourForButtonActive]}
+            >
+              <Text style={[styles.pourForText, forMe && styles.pourForTextActive]}>For me</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => setForMe(false)}
+              style={[styles.pourForButton, !forMe && styles.pourForButtonActive]}
+            >
+              <Text style={[styles.pourForText, !forMe && styles.pourForTextActive]}>For someone else</Text>
+            </Pressable>
+          </View>
+        )}
+      </View>
+
+      {openBottles.map(bottle => (
+        <BottleCard
+          key={bottle.id}
+          bottle={bottle}
+          forMe={forMe}
+          onPour={volumeMl => pourFromBottle(bottle.id, volumeMl, forMe)}
+          onClose={() => closeBottle(bottle.id)}
+        />
+      ))}
+
+      <Pressable
+        onPress={() => openBottle(name, abv, volume)}
+        disabled={!canOpen}
+        style={[styles.openButton, !canOpen && styles.openButtonDisabled]}
+      >
+        <Text style={styles.openButtonText}>
+          + Open a {volume}ml bottle of {name}
+        </Text>
+      </Pressable>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 32,
+    gap: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 10,
+    color: '#94a3b8',
+    fontWeight: '700',
+    letterSpacing: 1.5,
+    textTransform: 'uppercase',
+  },
+  pourForButtons: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  pourForButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    backgroundColor: 'rgba(71, 85, 105, 0.5)',
+  },
+  pourForButtonActive: {
+    backgroundColor: 'rgba(20, 184, 166, 0.2)',
+  },
+  pourForText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#94a3b8',
+  },
+  pourForTextActive: {
+    color: '#5eead4',
+  },
+  bottleCard: {
+    backgroundColor: 'rgba(30, 41, 59, 0.5)',
+    borderWidth: 1,
+    borderColor: 'rgba(71, 85, 105, 0.5)',
+    borderRadius: 12,
+    padding: 12,
+    gap: 8,
+  },
+  bottleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  bottleName: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#e2e8f0',
+  },
+  closeText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#64748b',
+  },
+  levelTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#334155',
+    overflow: 'hidden',
+  },
+  levelFill: {
+    height: '100%',
+    backgroundColor: '#a78bfa',
+  },
+  levelText: {
+    fontSize: 10,
+    fontFamily: 'monospace',
+    color: '#94a3b8',
+  },
+  pourButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  pourButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    backgroundColor: 'rgba(168, 85, 247, 0.2)',
+    borderRadius: 8,
+  },
+  pourButtonText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#d8b4fe',
+  },
+  hintText: {
+    fontSize: 10,
+    color: '#64748b',
+  },
+  openButton: {
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: 'rgba(168, 85, 247, 0.5)',
+    alignItems: 'center',
+  },
+  openButtonDisabled: {
+    opacity: 0.4,
+  },
+  openButtonText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#d8b4fe',
+  },
+});
+
+export default OpenBottles;
@@ -0,0 +1,118 @@
+import React from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { useDrinks } from '../context/DrinksContext';
+import { StandardDrinkUnit, toStandardDrinks } from '../services/standardDrinks';
+import { formatTimeOfDay } from '../services/timeOfDay';
+
+interface PlannedDrinkListProps {
+  unit: StandardDrinkUnit;
+}
+
+// The "what if" layer. Nothing here counts until it's marked as had.
+const PlannedDrinkList: React.FC<PlannedDrinkListProps> = ({ unit }) => {
+  const { plannedDrinks, confirmPlannedDrink, removePlannedDrink, clearPlannedDrinks } = useDrinks();
+
+  if (plannedDrinks.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Planned</Text>
+        <Pressable onPress={clearPlannedDrinks}>
+          <Text style={styles.clearText}>Clear Plan</Text>
+        </Pressable>
+      </View>
+
+      {plannedDrinks.map(drink => (
+        <View key={drink.id} style={styles.card}>
+          <Text style={styles.time}>{formatTimeOfDay(drink.timestamp)}</Text>
+          <View style={styles.info}>
+            <Text style={styles.name} numberOfLines={1}>{drink.name}</Text>
+            <Text style={styles.detail}>
+              {toStandardDrinks(drink.alcoholGrams, unit).toFixed(1)} {unit.shortLabel}
+            </Text>
+          </View>
+          <Pressable onPress={() => confirmPlannedDrink(drink.id)} style={styles.hadItButton}>
+            <Text style={styles.hadItText}>Had it</Text>
+          </Pressable>
+          <Pressable onPress={() => removePlannedDrink(drink.id)} hitSlop={8} style={styles.removeButton}>
+            <Text style={styles.removeText}>✕</Text>
+          </Pressable>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+    gap: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#c4b5fd',
+  },
+  clearText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#f87171',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: 'rgba(168, 85, 247, 0.5)',
+  },
+  time: {
+    fontSize: 12,
+    fontFamily: 'monospace',
+    fontWeight: '700',
+    color: '#a78bfa',
+  },
+  info: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#e2e8f0',
+  },
+  detail: {
+    fontSize: 10,
+    fontFamily: 'monospace',
+    color: '#64748b',
+    marginTop: 2,
+  },
+  hadItButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#0d9488',
+  },
+  hadItText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  removeButton: {
+    paddingHorizontal: 4,
+  },
+  removeText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+});
+
+export default PlannedDrinkList;
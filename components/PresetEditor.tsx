@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useLibrary } from '../context/LibraryContext';
+import { isValidPresetValue, Preset, PresetKind } from '../services/presets';
+
+interface PresetEditorProps {
+  kind: PresetKind;
+  unitLabel: string;
+  // Value the "add" form starts from, usually whatever is selected
+  currentValue: number;
+}
+
+interface PresetRowProps {
+  preset: Preset;
+  unitLabel: string;
+  isFirst: boolean;
+  isLast: boolean;
+  onRename: (label: string) => void;
+  onMove: (direction: -1 | 1) => void;
+  onToggleHidden: () => void;
+  onRemove: () => void;
+}
+
+// Renames are committed when editing ends, so a label is never saved empty
+const PresetRow: React.FC<PresetRowProps> = ({
+  preset,
+  unitLabel,
+  isFirst,
+  isLast,
+  onRename,
+  onMove,
+  onToggleHidden,
+  onRemove,
+}) => {
+  const [label, setLabel] = useState(preset.label);
+
+  const commitLabel = () => {
+    if (label.trim()) {
+      onRename(label.trim());
+    } else {
+      setLabel(preset.label);
+    }
+  };
+
+  return (
+    <View style={[styles.row, preset.hidden && styles.rowHidden]}>
+      <TextInput
+        style={styles.labelInput}
+        value={label}
+        onChangeText={setLabel}
+        onEndEditing={commitLabel}
+        onBlur={commitLabel}
+      />
+      <Text style={styles.valueText}>{preset.value}{unitLabel}</Text>
+      <Pressable onPress={() => onMove(-1)} disabled={isFirst} hitSlop={6}>
+        <Text style={[styles.iconText, isFirst && styles.iconDisabled]}>↑</Text>
+      </Pressable>
+      <Pressable onPress={() => onMove(1)} disabled={isLast} hitSlop={6}>
+        <Text style={[styles.iconText, isLast && styles.iconDisabled]}>↓</Text>
+      </Pressable>
+      <Pressable onPress={onToggleHidden} hitSlop={6}>
+        <Text style={styles.actionText}>{preset.hidden ? 'Show' : 'Hide'}</Text>
+      </Pressable>
+      {!preset.builtIn && (
+        <Pressable onPress={onRemove} hitSlop={6}>
+          <Text style={styles.removeText}>✕</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+};
+
+const PresetEditor: React.FC<PresetEditorProps> = ({ kind, unitLabel, currentValue }) => {
+  const { presets, addPreset, renamePreset, movePreset, setPresetHidden, removePreset } = useLibrary();
+  const list = presets[kind];
+  const [newLabel, setNewLabel] = useState('');
+  const [newValue, setNewValue] = useState(currentValue > 0 ? currentValue.toString() : '');
+
+  const canAdd = newLabel.trim().length > 0 && isValidPresetValue(kind, Number(newValue));
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    addPreset(kind, newLabel, Number(newValue));
+    setNewLabel('');
+  };
+
+  return (
+    <View style={styles.container}>
+      {list.map((preset, index) => (
+        <PresetRow
+          key={preset.id}
+          preset={preset}
+          unitLabel={unitLabel}
+          isFirst={index === 0}
+          isLast={index === list.length - 1}
+          onRename={label => renamePreset(kind, preset.id, label)}
+          onMove={direction => movePreset(kind, preset.id, direction)}
+          onToggleHidden={() => setPresetHidden(kind, preset.id, !preset.hidden)}
+          onRemove={() => removePreset(kind, preset.id)}
+        />
+      ))}
+
+      <View style={styles.addRow}>
+        <TextInput
+          style={[styles.labelInput, styles.addLabelInput]}
+          value={newLabel}
+          onChangeText={setNewLabel}
+          placeholder={kind === 'size' ? 'e.g. Local pub glass' : 'e.g. My home-brew'}
+          placeholderTextColor="#64748b"
+        />
+        <TextInput
+          style={styles.valueInput}
+          value={newValue}
+          onChangeText={setNewValue}
+          keyboardType="numeric"
+          placeholder="0"
+          placeholderTextColor="#64748b"
+        />
+        <Text style={styles.valueText}>{unitLabel}</Text>
+        <Pressable
+          onPress={handleAdd}
+          disabled={!canAdd}
+          style={[styles.addButton, !canAdd && styles.addButtonDisabled]}
+        >
+          <Text style={styles.addButtonText}>Add</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: 'rgba(71, 85, 105, 0.3)',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  rowHidden: {
+    opacity: 0.5,
+  },
+  labelInput: {
+    flex: 1,
+    color: '#e2e8f0',
+    fontSize: 12,
+    paddingVertical: 2,
+  },
+  valueText: {
+    fontSize: 11,
+    fontFamily: 'monospace',
+    color: '#94a3b8',
+  },
+  iconText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#cbd5e1',
+  },
+  iconDisabled: {
+    color: '#475569',
+  },
+  actionText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#14b8a6',
+  },
+  removeText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#f87171',
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 6,
+  },
+  addLabelInput: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#334155',
+  },
+  valueInput: {
+    width: 56,
+    color: '#ffffff',
+    fontSize: 12,
+    fontFamily: 'monospace',
+    textAlign: 'right',
+    borderBottomWidth: 1,
+    borderBottomColor: '#334155',
+    paddingVertical: 2,
+  },
+  addButton: {
+    backgroundColor: '#0d9488',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  addButtonDisabled: {
+    opacity: 0.4,
+  },
+  addButtonText: {
+    color: '#ffffff',
+    fontSize: 11,
+    fontWeight: '700',
+  },
+});
+
+export default PresetEditor;
@@ -0,0 +1,267 @@
+import React, { useMemo, useState } from 'react';
+import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useDrinks } from '../context/DrinksContext';
+import { useLibrary } from '../context/LibraryContext';
+import { useProfile } from '../context/ProfileContext';
+import { useSettings } from '../context/SettingsContext';
+import { formatBac } from '../services/legalLimits';
+import { presetLabelFor } from '../services/presets';
+import { reverseCalculate } from '../services/reverseCalculator';
+import { gramsOfAlcohol, toStandardDrinks } from '../services/standardDrinks';
+import { formatTimeOfDay, parseUpcomingTimeOfDay } from '../services/timeOfDay';
+
+const SPACINGS = [
+  { minutes: 0, label: 'All now' },
+  { minutes: 30, label: 'Every 30 min' },
+  { minutes: 45, label: 'Every 45 min' },
+  { minutes: 60, label: 'Every hour' },
+];
+
+// "Driving at 11:30 — how much more can I have?" Uses the same session,
+// profile and limit as the graph.
+const ReverseCalculator: React.FC = () => {
+  const { drinks, sessionFood } = useDrinks();
+  const { profile } = useProfile();
+  const { settings, unit, jurisdiction, limit } = useSettings();
+  const { presets } = useLibrary();
+  const [isOpen, setIsOpen] = useState(false);
+  const [targetText, setTargetText] = useState('23:30');
+  const [volume, setVolume] = useState(425);
+  const [abv, setAbv] = useState(4.8);
+  const [spacingMinutes, setSpacingMinutes] = useState(45);
+  // Recalculated when opened or changed, not every minute
+  const [now, setNow] = useState(Date.now());
+
+  const targetTime = parseUpcomingTimeOfDay(targetText, now);
+  const gramsPerDrink = gramsOfAlcohol(volume, abv);
+
+  const result = useMemo(() => {
+    if (!isOpen || targetTime === null) return null;
+    return reverseCalculate(drinks, profile, {
+      targetTime,
+      now,
+      limit,
+      gramsPerDrink,
+      spacingMinutes,
+      food: sessionFood,
+    });
+  }, [isOpen, drinks, profile, targetTime, now, limit, gramsPerDrink, spacingMinutes, sessionFood]);
+
+  const sizeLabel = presetLabelFor(presets.size, volume)?.replace(/\s*\(.*?\)\s*/g, '') ?? `${volume}ml`;
+  const drinkName = `${sizeLabel} of ${presetLabelFor(presets.abv, abv) ?? `${abv}%`}`;
+
+  if (!isOpen) {
+    return (
+      <Pressable
+        onPress={() => {
+          setNow(Date.now());
+          setIsOpen(true);
+        }}
+        style={styles.openLink}
+      >
+        <Text style={styles.openLinkText}>Driving later? See how much more you can have ›</Text>
+      </Pressable>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Under {formatBac(limit, settings.bacUnit, jurisdiction.breathRatio)} By…</Text>
+        <Pressable onPress={() => setIsOpen(false)} hitSlop={8}>
+          <Text style={styles.closeText}>✕</Text>
+        </Pressable>
+      </View>
+
+      <View style={styles.targetRow}>
+        <Text style={styles.label}>Need to be under at</Text>
+        <TextInput
+          style={[styles.targetInput, targetTime === null && styles.targetInputInvalid]}
+          value={targetText}
+          onChangeText={text => {
+            setTargetText(text);
+            setNow(Date.now());
+          }}
+          placeholder="HH:MM"
+          placeholderTextColor="#64748b"
+        />
+      </View>
+
+      <View style={styles.chips}>
+        {presets.size.filter(p => !p.hidden).map(size => (
+          <Pressable
+            key={size.id}
+            onPress={() => setVolume(size.value)}
+            style={[styles.chip, volume === size.value && styles.chipActive]}
+          >
+            <Text style={[styles.chipText, volume === size.value && styles.chipTextActive]}>{size.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+      <View style={styles.chips}>
+        {presets.abv.filter(p => !p.hidden).map(item => (
+          <Pressable
+            key={item.id}
+            onPress={() => setAbv(item.value)}
+            style={[styles.chip, abv === item.value && styles.chipActive]}
+          >
+            <Text style={[styles.chipText, abv === item.value && styles.chipTextActive]}>{item.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+      <View style={styles.chips}>
+        {SPACINGS.map(s => (
+          <Pressable
+            key={s.minutes}
+            onPress={() => setSpacingMinutes(s.minutes)}
+            style={[styles.chip, spacingMinutes === s.minutes && styles.chipActive]}
+          >
+            <Text style={[styles.chipText, spacingMinutes === s.minutes && styles.chipTextActive]}>{s.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {result && (
+        <View style={styles.result}>
+          {result.maxGramsNow <= 0 ? (
+            <Text style={styles.resultWarning}>
+              Nothing more. On current estimates you won&apos;t be under the limit by {targetText} even without another drink.
+            </Text>
+          ) : (
+            <>
+              <Text style={styles.resultLine}>
+                Up to <Text style={styles.resultNumber}>{toStandardDrinks(result.maxGramsNow, unit).toFixed(1)} {unit.shortLabel}</Text> more if you had it right now.
+              </Text>
+              <Text style={styles.resultLine}>
+                That&apos;s <Text style={styles.resultNumber}>{result.count}</Text> × {drinkName}
+                {spacingMinutes > 0 ? `, one every ${spacingMinutes} min` : ' all at once'}
+                {result.lastDrinkAt !== null && spacingMinutes > 0 ? `, the last at ${formatTimeOfDay(result.lastDrinkAt)}` : ''}.
+              </Text>
+              {result.lastCallAt !== null && (
+                <Text style={styles.resultLine}>
+                  Last call for a single one: <Text style={styles.resultNumber}>{formatTimeOfDay(result.lastCallAt)}</Text>
+                </Text>
+              )}
+            </>
+          )}
+          <Text style={styles.disclaimer}>
+            An estimate only. Everyone processes alcohol differently — if in doubt, don&apos;t drive.
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  openLink: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  openLinkText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#f97316',
+  },
+  container: {
+    backgroundColor: 'rgba(30, 41, 59, 0.8)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(249, 115, 22, 0.4)',
+    padding: 16,
+    marginBottom: 24,
+    gap: 10,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#94a3b8',
+    letterSpacing: 1.5,
+    textTransform: 'uppercase',
+  },
+  closeText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  targetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#cbd5e1',
+  },
+  targetInput: {
+    minWidth: 72,
+    fontFamily: 'monospace',
+    fontWeight: '700',
+    fontSize: 16,
+    color: '#f97316',
+    textAlign: 'right',
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(249, 115, 22, 0.5)',
+    paddingVertical: 4,
+  },
+  targetInputInvalid: {
+    borderBottomColor: '#ef4444',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    backgroundColor: 'rgba(71, 85, 105, 0.5)',
+    borderRadius: 8,
+  },
+  chipActive: {
+    backgroundColor: 'rgba(249, 115, 22, 0.2)',
+    borderWidth: 1,
+    borderColor: 'rgba(249, 115, 22, 0.5)',
+  },
+  chipText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#94a3b8',
+  },
+  chipTextActive: {
+    color: '#fed7aa',
+  },
+  result: {
+    marginTop: 4,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#0f172a',
+    gap: 6,
+  },
+  resultLine: {
+    fontSize: 12,
+    color: '#cbd5e1',
+    lineHeight: 18,
+  },
+  resultNumber: {
+    fontWeight: '800',
+    color: '#fed7aa',
+  },
+  resultWarning: {
+    fontSize: 12,
+    color: '#fca5a5',
+    lineHeight: 18,
+  },
+  disclaimer: {
+    fontSize: 10,
+    color: '#64748b',
+    marginTop: 4,
+  },
+});
+
+export default ReverseCalculator;
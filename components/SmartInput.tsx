@@ -1,48 +1,184 @@
 import React, { useState } from 'react';
 import { ActivityIndicator, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
-import { parseDrinkInput } from '../services/geminiService';
+import { useSettings } from '../context/SettingsContext';
+import { DrinkParserProvider, getParserProvider, parseDrinkInput, PARSER_PROVIDERS } from '../services/drinkParser';
+import { isDrinkParserError, ParserErrorKind } from '../services/parserErrors';
+import { ParserEndpoint, RemoteProviderId } from '../services/settings';
+import { NewDrinkOptions } from '../types';
+import DraftDrinkCard, { confirmDraft, createDraft, DraftDrink } from './DraftDrinkCard';
 
 interface SmartInputProps {
-  onAddDrink: (name: string, volume: number, abv: number) => void;
+  onAddDrink: (name: string, volume: number, abv: number, options?: NewDrinkOptions) => void;
 }
 
+const describeError = (kind: ParserErrorKind, provider: DrinkParserProvider) => {
+  switch (kind) {
+    case 'network':
+      return {
+        title: 'Connection problem',
+        message: `Couldn't reach ${provider.label}. Check your connection, base URL and API key, or switch to Offline.`,
+      };
+    case 'quota':
+      return {
+        title: 'Quota reached',
+        message: `${provider.label} is rate limiting this key. Wait a moment or switch to Offline.`,
+      };
+    case 'unparseable':
+      return {
+        title: 'Unreadable reply',
+        message: "The drinks that came back didn't make sense. Try rewording, or use the calculator.",
+      };
+    case 'nothingFound':
+      return {
+        title: 'No drinks found',
+        message: 'Could not identify any drinks. Try being more specific, e.g. "2 schooners of VB".',
+      };
+  }
+};
+
 const SmartInput: React.FC<SmartInputProps> = ({ onAddDrink }) => {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ParserErrorKind | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showConnection, setShowConnection] = useState(false);
+  // Parsed drinks wait here until they're confirmed
+  const [drafts, setDrafts] = useState<DraftDrink[]>([]);
+  const { settings, updateSettings, unit } = useSettings();
+  const provider = getParserProvider(settings.parserProvider);
+  const endpoint = provider.remote ? settings.parserEndpoints[provider.id as RemoteProviderId] : null;
+
+  const updateEndpoint = (changes: Partial<ParserEndpoint>) => {
+    if (!endpoint) return;
+    updateSettings({
+      parserEndpoints: {
+        ...settings.parserEndpoints,
+        [provider.id]: { ...endpoint, ...changes },
+      },
+    });
+  };
 
   const handleSubmit = async () => {
     if (!input.trim()) return;
 
     setIsLoading(true);
     setError(null);
+    setNotice(null);
 
     try {
-      const drinks = await parseDrinkInput(input);
-      if (drinks.length === 0) {
-        setError("Could not identify any drinks. Try being more specific.");
-      } else {
-        drinks.forEach((d: any) => {
-          onAddDrink(d.name, d.volumeMl, d.abv);
-        });
-        setInput('');
+      const { drinks, discarded } = await parseDrinkInput(input, settings);
+      const now = Date.now();
+      setDrafts(prev => [...prev, ...drinks.map((d, i) => createDraft(d, i, now))]);
+      setInput('');
+      if (discarded > 0) {
+        setNotice(`${discarded} item${discarded === 1 ? '' : 's'} couldn't be read and ${discarded === 1 ? 'was' : 'were'} left out.`);
       }
     } catch (err) {
-      setError("Failed to process request. Please check your connection.");
+      // Anything unexpected from a hosted provider is most likely the connection
+      setError(isDrinkParserError(err) ? err.kind : provider.remote ? 'network' : 'unparseable');
       console.error(err);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const updateDraft = (key: string, changes: Partial<DraftDrink>) => {
+    setDrafts(prev => prev.map(d => (d.key === key ? { ...d, ...changes } : d)));
+  };
+
+  const rejectDraft = (key: string) => {
+    setDrafts(prev => prev.filter(d => d.key !== key));
+  };
+
+  const acceptDraft = (draft: DraftDrink) => {
+    const drink = confirmDraft(draft);
+    if (!drink) return;
+
+    onAddDrink(drink.name, drink.volumeMl, drink.abv, { timestamp: drink.timestamp, endTime: drink.endTime });
+    rejectDraft(draft.key);
+  };
+
+  // Adds every draft that's valid; anything that still needs fixing stays
+  const acceptAllDrafts = () => {
+    drafts.forEach(acceptDraft);
+  };
+
+  const validDraftCount = drafts.filter(d => confirmDraft(d) !== null).length;
+
   return (
     <View style={styles.container}>
       <View style={styles.card}>
-        <Text style={styles.title}>Ask AI</Text>
+        <Text style={styles.title}>Describe Your Drinks</Text>
         <Text style={styles.subtitle}>
-          Describe what you drank, and we'll estimate the standard drinks for you.
+          Describe what you drank, and we will estimate the standard drinks for you.
         </Text>
-        
+
+        <View style={styles.providerButtons}>
+          {PARSER_PROVIDERS.map(p => (
+            <Pressable
+              key={p.id}
+              onPress={() => updateSettings({ parserProvider: p.id })}
+              disabled={isLoading}
+              style={[
+                styles.providerButton,
+                provider.id === p.id && styles.providerButtonActive
+              ]}
+            >
+              <Text
+                style={[
+                  styles.providerButtonText,
+                  provider.id === p.id && styles.providerButtonTextActive
+                ]}
+              >
+                {p.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+        <Text style={styles.providerDescription}>{provider.description}</Text>
+
+        {endpoint && (
+          <View style={styles.connection}>
+            <Pressable onPress={() => setShowConnection(!showConnection)}>
+              <Text style={styles.connectionToggle}>
+                {showConnection ? '▾' : '▸'} Connection · {endpoint.model}
+              </Text>
+            </Pressable>
+            {showConnection && (
+              <View style={styles.connectionFields}>
+                <Text style={styles.fieldLabel}>Base URL</Text>
+                <TextInput
+                  style={styles.fieldInput}
+                  value={endpoint.baseUrl}
+                  onChangeText={baseUrl => updateEndpoint({ baseUrl })}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                />
+                <Text style={styles.fieldLabel}>Model</Text>
+                <TextInput
+                  style={styles.fieldInput}
+                  value={endpoint.model}
+                  onChangeText={model => updateEndpoint({ model })}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                <Text style={styles.fieldLabel}>API Key</Text>
+                <TextInput
+                  style={styles.fieldInput}
+                  value={endpoint.apiKey}
+                  onChangeText={apiKey => updateEndpoint({ apiKey })}
+                  placeholder={provider.id === 'openai' ? 'Optional for local servers' : ''}
+                  placeholderTextColor="#64748b"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  secureTextEntry
+                />
+              </View>
+            )}
+          </View>
+        )}
+
         <TextInput
           style={styles.input}
           value={input}
@@ -77,13 +213,47 @@ const SmartInput: React.FC<SmartInputProps> = ({ onAddDrink }) => {
 
         {error && (
           <View style={styles.errorContainer}>
-            <Text style={styles.errorText}>{error}</Text>
+            <Text style={styles.errorTitle}>{describeError(error, provider).title}</Text>
+            <Text style={styles.errorText}>{describeError(error, provider).message}</Text>
+          </View>
+        )}
+
+        {notice && <Text style={styles.noticeText}>{notice}</Text>}
+
+        {drafts.length > 0 && (
+          <View style={styles.drafts}>
+            <View style={styles.draftsHeader}>
+              <Text style={styles.draftsTitle}>Check Before Adding</Text>
+              <View style={styles.draftsActions}>
+                <Pressable onPress={() => setDrafts([])}>
+                  <Text style={styles.discardAllText}>Discard All</Text>
+                </Pressable>
+                <Pressable
+                  onPress={acceptAllDrafts}
+                  disabled={validDraftCount === 0}
+                  style={[styles.addAllButton, validDraftCount === 0 && styles.buttonDisabled]}
+                >
+                  <Text style={styles.addAllText}>Add All ({validDraftCount})</Text>
+                </Pressable>
+              </View>
+            </View>
+            <Text style={styles.draftsHint}>Sipped one over a while? Give it a time range like 19:00-20:00.</Text>
+            {drafts.map(draft => (
+              <DraftDrinkCard
+                key={draft.key}
+                draft={draft}
+                unit={unit}
+                onChange={changes => updateDraft(draft.key, changes)}
+                onAccept={() => acceptDraft(draft)}
+                onReject={() => rejectDraft(draft.key)}
+              />
+            ))}
           </View>
         )}
       </View>
       
       <Text style={styles.disclaimer}>
-        AI estimates may vary. Always check official labels.
+        Estimates may vary. Always check official labels.
       </Text>
     </View>
   );
@@ -112,6 +282,68 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     lineHeight: 18,
   },
+  providerButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  providerButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#334155',
+  },
+  providerButtonActive: {
+    backgroundColor: '#4f46e5',
+    borderColor: '#6366f1',
+  },
+  providerButtonText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#94a3b8',
+  },
+  providerButtonTextActive: {
+    color: '#ffffff',
+  },
+  providerDescription: {
+    fontSize: 11,
+    color: '#64748b',
+    marginBottom: 12,
+    lineHeight: 16,
+  },
+  connection: {
+    marginBottom: 16,
+  },
+  connectionToggle: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#a5b4fc',
+  },
+  connectionFields: {
+    marginTop: 8,
+    gap: 4,
+  },
+  fieldLabel: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#64748b',
+    letterSpacing: 1,
+    textTransform: 'uppercase',
+    marginTop: 4,
+  },
+  fieldInput: {
+    backgroundColor: '#1e293b',
+    color: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#334155',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 12,
+  },
   input: {
     backgroundColor: '#1e293b',
     color: '#ffffff',
@@ -159,13 +391,62 @@ const styles = StyleSheet.create({
     borderColor: 'rgba(239, 68, 68, 0.2)',
     borderRadius: 8,
     padding: 12,
-    flexDirection: 'row',
-    alignItems: 'center',
+    gap: 4,
+  },
+  errorTitle: {
+    color: '#f87171',
+    fontSize: 12,
+    fontWeight: '700',
   },
   errorText: {
     color: '#f87171',
     fontSize: 12,
-    flex: 1,
+  },
+  noticeText: {
+    color: '#fbbf24',
+    fontSize: 11,
+    marginTop: 8,
+  },
+  drafts: {
+    marginTop: 16,
+    gap: 8,
+  },
+  draftsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  draftsTitle: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#94a3b8',
+    letterSpacing: 1,
+    textTransform: 'uppercase',
+  },
+  draftsHint: {
+    fontSize: 10,
+    color: '#64748b',
+  },
+  draftsActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  discardAllText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#64748b',
+  },
+  addAllButton: {
+    backgroundColor: '#0d9488',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  addAllText: {
+    color: '#ffffff',
+    fontSize: 12,
+    fontWeight: '700',
   },
   disclaimer: {
     fontSize: 10,
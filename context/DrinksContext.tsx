@@ -1,33 +1,148 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import React, { createContext, ReactNode, useContext, useEffect, useState } from 'react';
-import { Drink } from '../types';
+import React, { createContext, ReactNode, useContext, useEffect, useRef, useState } from 'react';
+import { groupIntoSessions, ImportPayload, ImportReport, mergeSessions } from '../services/exportImport';
+import { simulateBac } from '../services/bacEngine';
+import { drinkToGrams, mapList, sessionToGrams } from '../services/migrations';
+import { bacMilestones, capMessage, capReached, notifyNow, scheduleMilestones } from '../services/notifications';
+import { createOpenBottle, OpenBottle, pourName, pourSize } from '../services/openBottles';
+import { createPlannedDrinks } from '../services/planning';
+import { createSession, Session } from '../services/sessions';
+import { gramsOfAlcohol } from '../services/standardDrinks';
+import { loadStored, saveStored, StoredValue, validateList } from '../services/storage';
+import { isFoodState, isPartialPortion, validateDrink, validateOpenBottle, validateSession } from '../services/validation';
+import { Drink, DrinkChanges, FoodState, NewDrinkOptions } from '../types';
+import { useProfile } from './ProfileContext';
+import { useSettings } from './SettingsContext';
 
 // Define the Context State
 interface DrinksContextType {
     drinks: Drink[];
-    addDrink: (name: string, volumeMl: number, abv: number, timestamp?: number) => void;
+    addDrink: (name: string, volumeMl: number, abv: number, options?: NewDrinkOptions) => void;
     removeDrink: (id: string) => void;
-    updateDrinkTime: (id: string, newTimestamp: number) => void;
-    clearSession: () => void;
+    // Grams are recalculated whenever volume or ABV change
+    updateDrink: (id: string, changes: DrinkChanges) => void;
+    // 0 minutes means it was had in one go
+    updateDrinkDuration: (id: string, minutes: number) => void;
+    // Share of the serve actually drunk; 1 for all of it
+    updateDrinkPortion: (id: string, portion: number) => void;
+    updateDrinkFood: (id: string, food: FoodState) => void;
+    sessionFood: FoodState;
+    setSessionFood: (food: FoodState) => void;
+    sessions: Session[];
+    endSession: () => void;
+    deleteSession: (id: string) => void;
+    importData: (payload: ImportPayload) => ImportReport;
+    // Bottles being poured from, kept open across sessions until closed
+    openBottles: OpenBottle[];
+    openBottle: (name: string, abv: number, volumeMl: number) => void;
+    // Pours for someone else use up the bottle without logging a drink
+    pourFromBottle: (id: string, volumeMl: number, forMe: boolean) => void;
+    closeBottle: (id: string) => void;
+    // Hypothetical future drinks, kept out of the session until confirmed
+    plannedDrinks: Drink[];
+    planDrinks: (name: string, volumeMl: number, abv: number, times: number[]) => void;
+    removePlannedDrink: (id: string) => void;
+    clearPlannedDrinks: () => void;
+    // Moves a planned drink into the session as drunk just now
+    confirmPlannedDrink: (id: string) => void;
     isLoading: boolean;
 }
 
 const DrinksContext = createContext<DrinksContextType | undefined>(undefined);
 
 const STORAGE_KEY = '@standard_drinker_drinks';
+const FOOD_STORAGE_KEY = '@standard_drinker_session_food';
+const SESSIONS_STORAGE_KEY = '@standard_drinker_sessions';
+const OPEN_BOTTLES_STORAGE_KEY = '@standard_drinker_open_bottles';
+const PLANNED_STORAGE_KEY = '@standard_drinker_planned_drinks';
+
+const DRINKS_STORE: StoredValue<Drink[]> = {
+    key: STORAGE_KEY,
+    migrations: [
+        // 0 -> 1: bare Drink[] saved before storage was versioned
+        (data) => data,
+        // 1 -> 2: standard drinks replaced by grams of alcohol
+        mapList(drinkToGrams),
+    ],
+    validate: (data) => validateList(data, validateDrink),
+    fallback: [],
+};
+
+const SESSIONS_STORE: StoredValue<Session[]> = {
+    key: SESSIONS_STORAGE_KEY,
+    migrations: [
+        // 0 -> 1: bare Session[] saved before storage was versioned
+        (data) => data,
+        // 1 -> 2: standard drinks replaced by grams of alcohol
+        mapList(sessionToGrams),
+    ],
+    validate: (data) => validateList(data, validateSession),
+    fallback: [],
+};
+
+const OPEN_BOTTLES_STORE: StoredValue<OpenBottle[]> = {
+    key: OPEN_BOTTLES_STORAGE_KEY,
+    migrations: [],
+    validate: (data) => validateList(data, validateOpenBottle),
+    fallback: [],
+};
+
+const applyDrinkChanges = (drink: Drink, changes: DrinkChanges): Drink => {
+    const { endTime: _endTime, notes: _notes, ...rest } = drink;
+    const timestamp = changes.timestamp ?? drink.timestamp;
+    const updated: Drink = {
+        ...rest,
+        name: changes.name?.trim() || drink.name,
+        volumeMl: changes.volumeMl ?? drink.volumeMl,
+        abv: changes.abv ?? drink.abv,
+        timestamp,
+    };
+    updated.alcoholGrams = gramsOfAlcohol(updated.volumeMl, updated.abv) * (drink.portion ?? 1);
+
+    // Without a new end time, a drink sipped over a while keeps its length
+    let endTime = drink.endTime !== undefined ? timestamp + (drink.endTime - drink.timestamp) : undefined;
+    if (changes.endTime !== undefined) endTime = changes.endTime ?? undefined;
+    if (endTime !== undefined && endTime > timestamp) updated.endTime = endTime;
+
+    const notes = changes.notes === undefined ? drink.notes : changes.notes.trim();
+    if (notes) updated.notes = notes;
+
+    return updated;
+};
+
+const PLANNED_STORE: StoredValue<Drink[]> = {
+    key: PLANNED_STORAGE_KEY,
+    migrations: [],
+    validate: (data) => validateList(data, validateDrink),
+    fallback: [],
+};
 
 export const DrinksProvider = ({ children }: { children: ReactNode }) => {
+    const { profile, updateProfile } = useProfile();
+    const { settings, unit, jurisdiction, limit } = useSettings();
     const [drinks, setDrinks] = useState<Drink[]>([]);
+    // Archived sessions, newest first
+    const [sessions, setSessions] = useState<Session[]>([]);
+    // Default food state stamped onto each new drink
+    const [sessionFood, setSessionFood] = useState<FoodState>('empty');
+    const [openBottles, setOpenBottles] = useState<OpenBottle[]>([]);
+    const [plannedDrinks, setPlannedDrinks] = useState<Drink[]>([]);
     const [isLoading, setIsLoading] = useState(true);
+    // Session total the cap was last checked against; null until loaded
+    const checkedGramsRef = useRef<number | null>(null);
 
     // Load drinks from storage on mount
     useEffect(() => {
         const loadDrinks = async () => {
             try {
-                const storedDrinks = await AsyncStorage.getItem(STORAGE_KEY);
-                if (storedDrinks) {
-                    setDrinks(JSON.parse(storedDrinks));
+                setDrinks(await loadStored(DRINKS_STORE));
+                const storedFood = await AsyncStorage.getItem(FOOD_STORAGE_KEY);
+                if (isFoodState(storedFood)) {
+                    setSessionFood(storedFood);
                 }
+                setSessions(await loadStored(SESSIONS_STORE));
+                setOpenBottles(await loadStored(OPEN_BOTTLES_STORE));
+                setPlannedDrinks(await loadStored(PLANNED_STORE));
             } catch (error) {
                 console.error('Failed to load drinks:', error);
             } finally {
@@ -44,7 +159,7 @@ export const DrinksProvider = ({ children }: { children: ReactNode }) => {
 
         const saveDrinks = async () => {
             try {
-                await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(drinks));
+                await saveStored(DRINKS_STORE, drinks);
             } catch (error) {
                 console.error('Failed to save drinks:', error);
             }
@@ -53,18 +168,86 @@ export const DrinksProvider = ({ children }: { children: ReactNode }) => {
         saveDrinks();
     }, [drinks, isLoading]);
 
-    const addDrink = (name: string, volumeMl: number, abv: number, timestamp?: number) => {
-        // AUS Standard Drink Formula: Vol(L) * ABV * 0.789
-        const std = (volumeMl / 1000) * abv * 0.789;
+    useEffect(() => {
+        if (isLoading) return;
+
+        saveStored(SESSIONS_STORE, sessions).catch((error) => {
+            console.error('Failed to save sessions:', error);
+        });
+    }, [sessions, isLoading]);
+
+    useEffect(() => {
+        if (isLoading) return;
+
+        saveStored(OPEN_BOTTLES_STORE, openBottles).catch((error) => {
+            console.error('Failed to save open bottles:', error);
+        });
+    }, [openBottles, isLoading]);
+
+    useEffect(() => {
+        if (isLoading) return;
+
+        saveStored(PLANNED_STORE, plannedDrinks).catch((error) => {
+            console.error('Failed to save planned drinks:', error);
+        });
+    }, [plannedDrinks, isLoading]);
+
+    useEffect(() => {
+        if (isLoading) return;
+
+        AsyncStorage.setItem(FOOD_STORAGE_KEY, sessionFood).catch((error) => {
+            console.error('Failed to save session food:', error);
+        });
+    }, [sessionFood, isLoading]);
+
+    // Any change to the session moves the milestones, so they're rescheduled
+    // from scratch every time
+    useEffect(() => {
+        if (isLoading) return;
+
+        const prefs = settings.notifications;
+        const milestones = prefs.enabled
+            ? bacMilestones(simulateBac(drinks, profile, { limit }), limit, settings.bacUnit, jurisdiction.breathRatio, prefs, Date.now())
+            : [];
+        scheduleMilestones(milestones).catch((error) => {
+            console.error('Failed to schedule notifications:', error);
+        });
+    }, [drinks, profile, limit, settings.notifications, settings.bacUnit, jurisdiction, isLoading]);
+
+    useEffect(() => {
+        if (isLoading) return;
+
+        const grams = drinks.reduce((sum, d) => sum + d.alcoholGrams, 0);
+        const previous = checkedGramsRef.current;
+        checkedGramsRef.current = grams;
+
+        const prefs = settings.notifications;
+        if (previous === null || !prefs.enabled || !capReached(previous, grams, prefs.sessionCapGrams)) return;
 
+        const { title, body } = capMessage(grams, unit);
+        notifyNow(title, body).catch((error) => {
+            console.error('Failed to send notification:', error);
+        });
+    }, [drinks, settings.notifications, unit, isLoading]);
+
+    const addDrink = (name: string, volumeMl: number, abv: number, options: NewDrinkOptions = {}) => {
+        const { timestamp, endTime, portion } = options;
         const newDrink: Drink = {
             id: Date.now().toString() + Math.random().toString(),
             name,
             volumeMl,
             abv,
-            standardDrinks: std,
+            alcoholGrams: gramsOfAlcohol(volumeMl, abv),
             timestamp: timestamp || Date.now(),
+            food: sessionFood,
         };
+        if (endTime !== undefined && endTime > newDrink.timestamp) {
+            newDrink.endTime = endTime;
+        }
+        if (isPartialPortion(portion)) {
+            newDrink.portion = portion;
+            newDrink.alcoholGrams *= portion;
+        }
         setDrinks((prevDrinks) => [newDrink, ...prevDrinks]);
     };
 
@@ -72,19 +255,116 @@ export const DrinksProvider = ({ children }: { children: ReactNode }) => {
         setDrinks((prevDrinks) => prevDrinks.filter((d) => d.id !== id));
     };
 
-    const updateDrinkTime = (id: string, newTimestamp: number) => {
+    const updateDrink = (id: string, changes: DrinkChanges) => {
+        setDrinks((prevDrinks) =>
+            prevDrinks.map((d) => (d.id === id ? applyDrinkChanges(d, changes) : d))
+        );
+    };
+
+    const updateDrinkDuration = (id: string, minutes: number) => {
+        setDrinks((prevDrinks) =>
+            prevDrinks.map((d) => {
+                if (d.id !== id) return d;
+                const { endTime: _previous, ...rest } = d;
+                return minutes > 0 ? { ...rest, endTime: d.timestamp + minutes * 60 * 1000 } : rest;
+            })
+        );
+    };
+
+    const updateDrinkPortion = (id: string, portion: number) => {
+        setDrinks((prevDrinks) =>
+            prevDrinks.map((d) => {
+                if (d.id !== id) return d;
+                const { portion: _previous, ...rest } = d;
+                const fullGrams = gramsOfAlcohol(d.volumeMl, d.abv);
+                return isPartialPortion(portion)
+                    ? { ...rest, portion, alcoholGrams: fullGrams * portion }
+                    : { ...rest, alcoholGrams: fullGrams };
+            })
+        );
+    };
+
+    const updateDrinkFood = (id: string, food: FoodState) => {
         setDrinks((prevDrinks) =>
-            prevDrinks.map((d) => (d.id === id ? { ...d, timestamp: newTimestamp } : d))
+            prevDrinks.map((d) => (d.id === id ? { ...d, food } : d))
         );
     };
 
-    const clearSession = async () => {
-        try {
-            await AsyncStorage.removeItem(STORAGE_KEY);
-            setDrinks([]);
-        } catch (error) {
-            console.error('Failed to clear session:', error);
+    // Archive the current drinks into history and start a fresh session. The
+    // plan was for this session, so it goes too.
+    const endSession = () => {
+        if (drinks.length > 0) {
+            const session = createSession(drinks, profile);
+            setSessions((prevSessions) => [session, ...prevSessions]);
         }
+        setDrinks([]);
+        setPlannedDrinks([]);
+        setSessionFood('empty');
+    };
+
+    const deleteSession = (id: string) => {
+        setSessions((prevSessions) => prevSessions.filter((s) => s.id !== id));
+    };
+
+    // Imported drinks always land in history, never in the live session
+    const importData = (payload: ImportPayload): ImportReport => {
+        const incoming = [...payload.sessions, ...groupIntoSessions(payload.drinks, profile)];
+        const result = mergeSessions(sessions, drinks, incoming);
+        setSessions(result.sessions);
+        if (payload.profile) updateProfile(payload.profile);
+
+        return {
+            added: result.added,
+            duplicates: result.duplicates,
+            rejected: payload.rejected,
+            profileRestored: payload.profile !== undefined,
+        };
+    };
+
+    const openBottle = (name: string, abv: number, volumeMl: number) => {
+        setOpenBottles((prevBottles) => [createOpenBottle(name, abv, volumeMl), ...prevBottles]);
+    };
+
+    const pourFromBottle = (id: string, volumeMl: number, forMe: boolean) => {
+        const bottle = openBottles.find((b) => b.id === id);
+        if (!bottle) return;
+
+        const poured = pourSize(bottle, volumeMl);
+        if (poured <= 0) return;
+
+        setOpenBottles((prevBottles) =>
+            prevBottles.map((b) => (b.id === id ? { ...b, pouredMl: b.pouredMl + poured } : b))
+        );
+        if (forMe) {
+            addDrink(pourName(bottle, poured), poured, bottle.abv);
+        }
+    };
+
+    const closeBottle = (id: string) => {
+        setOpenBottles((prevBottles) => prevBottles.filter((b) => b.id !== id));
+    };
+
+    const planDrinks = (name: string, volumeMl: number, abv: number, times: number[]) => {
+        const planned = createPlannedDrinks(name, volumeMl, abv, times, sessionFood);
+        setPlannedDrinks((prevPlanned) =>
+            [...prevPlanned, ...planned].sort((a, b) => a.timestamp - b.timestamp)
+        );
+    };
+
+    const removePlannedDrink = (id: string) => {
+        setPlannedDrinks((prevPlanned) => prevPlanned.filter((d) => d.id !== id));
+    };
+
+    const clearPlannedDrinks = () => {
+        setPlannedDrinks([]);
+    };
+
+    const confirmPlannedDrink = (id: string) => {
+        const planned = plannedDrinks.find((d) => d.id === id);
+        if (!planned) return;
+
+        removePlannedDrink(id);
+        addDrink(planned.name, planned.volumeMl, planned.abv);
     };
 
     return (
@@ -93,8 +373,25 @@ export const DrinksProvider = ({ children }: { children: ReactNode }) => {
                 drinks,
                 addDrink,
                 removeDrink,
-                updateDrinkTime,
-                clearSession,
+                updateDrink,
+                updateDrinkDuration,
+                updateDrinkPortion,
+                updateDrinkFood,
+                sessionFood,
+                setSessionFood,
+                sessions,
+                endSession,
+                deleteSession,
+                importData,
+                openBottles,
+                openBottle,
+                pourFromBottle,
+                closeBottle,
+                plannedDrinks,
+                planDrinks,
+                removePlannedDrink,
+                clearPlannedDrinks,
+                confirmPlannedDrink,
                 isLoading,
             }}
         >
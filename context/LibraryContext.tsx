@@ -0,0 +1,222 @@
+import React, { createContext, ReactNode, useContext, useEffect, useMemo, useState } from 'react';
+import { BUNDLED_CATALOGUE, CatalogueEntry } from '../services/beverageCatalogue';
+import {
+    createPreset,
+    DEFAULT_PRESETS,
+    movePreset as movePresetInList,
+    PresetKind,
+    Presets,
+    sanitizePresets,
+} from '../services/presets';
+import { Recipe, STARTER_RECIPES } from '../services/recipes';
+import { loadStored, saveStored, StoredValue, validateList } from '../services/storage';
+import { validateCatalogueEntry, validateRecipe } from '../services/validation';
+
+// Define the Context State
+interface LibraryContextType {
+    // Bundled entries followed by the user's own
+    catalogue: CatalogueEntry[];
+    customEntries: CatalogueEntry[];
+    addCatalogueEntry: (entry: CatalogueEntry) => void;
+    removeCatalogueEntry: (id: string) => void;
+    // Quick-pick sizes and ABVs for the calculator
+    presets: Presets;
+    addPreset: (kind: PresetKind, label: string, value: number) => void;
+    renamePreset: (kind: PresetKind, id: string, label: string) => void;
+    movePreset: (kind: PresetKind, id: string, direction: -1 | 1) => void;
+    setPresetHidden: (kind: PresetKind, id: string, hidden: boolean) => void;
+    // Only the user's own presets can be removed; built-ins can be hidden
+    removePreset: (kind: PresetKind, id: string) => void;
+    // Starter cocktails followed by the user's own
+    recipes: Recipe[];
+    // Replaces any saved recipe with the same id
+    saveRecipe: (recipe: Recipe) => void;
+    removeRecipe: (id: string) => void;
+    isLoading: boolean;
+}
+
+const LibraryContext = createContext<LibraryContextType | undefined>(undefined);
+
+const CATALOGUE_STORAGE_KEY = '@standard_drinker_catalogue';
+const PRESETS_STORAGE_KEY = '@standard_drinker_presets';
+const RECIPES_STORAGE_KEY = '@standard_drinker_recipes';
+
+const CATALOGUE_STORE: StoredValue<CatalogueEntry[]> = {
+    key: CATALOGUE_STORAGE_KEY,
+    migrations: [],
+    validate: (data) => validateList(data, validateCatalogueEntry),
+    fallback: [],
+};
+
+const PRESETS_STORE: StoredValue<Presets> = {
+    key: PRESETS_STORAGE_KEY,
+    migrations: [],
+    validate: (data) => ({ value: sanitizePresets(data), rejected: [] }),
+    fallback: DEFAULT_PRESETS,
+};
+
+const RECIPES_STORE: StoredValue<Recipe[]> = {
+    key: RECIPES_STORAGE_KEY,
+    migrations: [],
+    validate: (data) => validateList(data, validateRecipe),
+    fallback: [],
+};
+
+export const LibraryProvider = ({ children }: { children: ReactNode }) => {
+    const [customEntries, setCustomEntries] = useState<CatalogueEntry[]>([]);
+    const [presets, setPresets] = useState<Presets>(DEFAULT_PRESETS);
+    const [savedRecipes, setSavedRecipes] = useState<Recipe[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    // Load the user's library from storage on mount
+    useEffect(() => {
+        const loadLibrary = async () => {
+            try {
+                setCustomEntries(await loadStored(CATALOGUE_STORE));
+                setPresets(await loadStored(PRESETS_STORE));
+                setSavedRecipes(await loadStored(RECIPES_STORE));
+            } catch (error) {
+                console.error('Failed to load library:', error);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadLibrary();
+    }, []);
+
+    // Save custom entries to storage whenever they change
+    useEffect(() => {
+        if (isLoading) return;
+
+        const saveCatalogue = async () => {
+            try {
+                await saveStored(CATALOGUE_STORE, customEntries);
+            } catch (error) {
+                console.error('Failed to save catalogue:', error);
+            }
+        };
+
+        saveCatalogue();
+    }, [customEntries, isLoading]);
+
+    // Save presets to storage whenever they change
+    useEffect(() => {
+        if (isLoading) return;
+
+        const savePresets = async () => {
+            try {
+                await saveStored(PRESETS_STORE, presets);
+            } catch (error) {
+                console.error('Failed to save presets:', error);
+            }
+        };
+
+        savePresets();
+    }, [presets, isLoading]);
+
+    // Save recipes to storage whenever they change
+    useEffect(() => {
+        if (isLoading) return;
+
+        const saveRecipes = async () => {
+            try {
+                await saveStored(RECIPES_STORE, savedRecipes);
+            } catch (error) {
+                console.error('Failed to save recipes:', error);
+            }
+        };
+
+        saveRecipes();
+    }, [savedRecipes, isLoading]);
+
+    const addCatalogueEntry = (entry: CatalogueEntry) => {
+        setCustomEntries((prevEntries) => [...prevEntries, { ...entry, custom: true }]);
+    };
+
+    const removeCatalogueEntry = (id: string) => {
+        setCustomEntries((prevEntries) => prevEntries.filter(e => e.id !== id));
+    };
+
+    const addPreset = (kind: PresetKind, label: string, value: number) => {
+        setPresets((prevPresets) => ({
+            ...prevPresets,
+            [kind]: [...prevPresets[kind], createPreset(kind, label, value)],
+        }));
+    };
+
+    const renamePreset = (kind: PresetKind, id: string, label: string) => {
+        setPresets((prevPresets) => ({
+            ...prevPresets,
+            [kind]: prevPresets[kind].map(p => (p.id === id ? { ...p, label } : p)),
+        }));
+    };
+
+    const movePreset = (kind: PresetKind, id: string, direction: -1 | 1) => {
+        setPresets((prevPresets) => ({
+            ...prevPresets,
+            [kind]: movePresetInList(prevPresets[kind], id, direction),
+        }));
+    };
+
+    const setPresetHidden = (kind: PresetKind, id: string, hidden: boolean) => {
+        setPresets((prevPresets) => ({
+            ...prevPresets,
+            [kind]: prevPresets[kind].map(p => (p.id === id ? { ...p, hidden } : p)),
+        }));
+    };
+
+    const removePreset = (kind: PresetKind, id: string) => {
+        setPresets((prevPresets) => ({
+            ...prevPresets,
+            [kind]: prevPresets[kind].filter(p => p.id !== id || p.builtIn),
+        }));
+    };
+
+    const saveRecipe = (recipe: Recipe) => {
+        const { builtIn: _builtIn, ...saved } = recipe;
+        setSavedRecipes((prevRecipes) =>
+            prevRecipes.some(r => r.id === saved.id)
+                ? prevRecipes.map(r => (r.id === saved.id ? saved : r))
+                : [...prevRecipes, saved]
+        );
+    };
+
+    const removeRecipe = (id: string) => {
+        setSavedRecipes((prevRecipes) => prevRecipes.filter(r => r.id !== id));
+    };
+
+    const catalogue = useMemo(() => [...BUNDLED_CATALOGUE, ...customEntries], [customEntries]);
+    const recipes = useMemo(() => [...STARTER_RECIPES, ...savedRecipes], [savedRecipes]);
+
+    return (
+        <LibraryContext.Provider
+            value={{
+                catalogue,
+                customEntries,
+                addCatalogueEntry,
+                removeCatalogueEntry,
+                presets,
+                addPreset,
+                renamePreset,
+                movePreset,
+                setPresetHidden,
+                removePreset,
+                recipes,
+                saveRecipe,
+                removeRecipe,
+                isLoading,
+            }}
+        >
+            {children}
+        </LibraryContext.Provider>
+    );
+};
+
+export const useLibrary = () => {
+    const context = useContext(LibraryContext);
+    if (context === undefined) {
+        throw new Error('useLibrary must be used within a LibraryProvider');
+    }
+    return context;
+};
@@ -0,0 +1,93 @@
+import React, { createContext, ReactNode, useContext, useEffect, useState } from 'react';
+import { BacProfile } from '../services/bacEngine';
+import { profileToGrams } from '../services/migrations';
+import { DEFAULT_PROFILE, sanitizeProfile } from '../services/profile';
+import { loadStored, saveStored, StoredValue } from '../services/storage';
+
+// Define the Context State
+interface ProfileContextType {
+    profile: BacProfile;
+    updateProfile: (changes: Partial<BacProfile>) => void;
+    resetProfile: () => void;
+    isLoading: boolean;
+}
+
+const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
+
+const STORAGE_KEY = '@standard_drinker_profile';
+
+const PROFILE_STORE: StoredValue<BacProfile> = {
+    key: STORAGE_KEY,
+    migrations: [
+        // 0 -> 1: bare profile object saved before storage was versioned
+        (data) => data,
+        // 1 -> 2: burn rates in grams instead of standard drinks
+        profileToGrams,
+    ],
+    validate: (data) => ({ value: sanitizeProfile(data), rejected: [] }),
+    fallback: DEFAULT_PROFILE,
+};
+
+export const ProfileProvider = ({ children }: { children: ReactNode }) => {
+    const [profile, setProfile] = useState<BacProfile>(DEFAULT_PROFILE);
+    const [isLoading, setIsLoading] = useState(true);
+
+    // Load profile from storage on mount
+    useEffect(() => {
+        const loadProfile = async () => {
+            try {
+                setProfile(await loadStored(PROFILE_STORE));
+            } catch (error) {
+                console.error('Failed to load profile:', error);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadProfile();
+    }, []);
+
+    // Save profile to storage whenever it changes
+    useEffect(() => {
+        if (isLoading) return;
+
+        const saveProfile = async () => {
+            try {
+                await saveStored(PROFILE_STORE, profile);
+            } catch (error) {
+                console.error('Failed to save profile:', error);
+            }
+        };
+
+        saveProfile();
+    }, [profile, isLoading]);
+
+    const updateProfile = (changes: Partial<BacProfile>) => {
+        setProfile((prevProfile) => ({ ...prevProfile, ...changes }));
+    };
+
+    const resetProfile = () => {
+        setProfile(DEFAULT_PROFILE);
+    };
+
+    return (
+        <ProfileContext.Provider
+            value={{
+                profile,
+                updateProfile,
+                resetProfile,
+                isLoading,
+            }}
+        >
+            {children}
+        </ProfileContext.Provider>
+    );
+};
+
+export const useProfile = () => {
+    const context = useContext(ProfileContext);
+    if (context === undefined) {
+        throw new Error('useProfile must be used within a ProfileProvider');
+    }
+    return context;
+};
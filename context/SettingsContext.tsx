@@ -0,0 +1,95 @@
+import React, { createContext, ReactNode, useContext, useEffect, useState } from 'react';
+import { getJurisdiction, getLicenceClass, Jurisdiction, LicenceClass } from '../services/legalLimits';
+import { DEFAULT_SETTINGS, sanitizeSettings, Settings } from '../services/settings';
+import { getStandardDrinkUnit, StandardDrinkUnit } from '../services/standardDrinks';
+import { loadStored, saveStored, StoredValue } from '../services/storage';
+
+// Define the Context State
+interface SettingsContextType {
+    settings: Settings;
+    updateSettings: (changes: Partial<Settings>) => void;
+    // The standard drink definition picked in settings
+    unit: StandardDrinkUnit;
+    jurisdiction: Jurisdiction;
+    licence: LicenceClass;
+    // Legal BAC limit (%) for the chosen jurisdiction and licence class
+    limit: number;
+    isLoading: boolean;
+}
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+const STORAGE_KEY = '@standard_drinker_settings';
+
+const SETTINGS_STORE: StoredValue<Settings> = {
+    key: STORAGE_KEY,
+    migrations: [],
+    validate: (data) => ({ value: sanitizeSettings(data), rejected: [] }),
+    fallback: DEFAULT_SETTINGS,
+};
+
+export const SettingsProvider = ({ children }: { children: ReactNode }) => {
+    const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+    const [isLoading, setIsLoading] = useState(true);
+
+    // Load settings from storage on mount
+    useEffect(() => {
+        const loadSettings = async () => {
+            try {
+                setSettings(await loadStored(SETTINGS_STORE));
+            } catch (error) {
+                console.error('Failed to load settings:', error);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadSettings();
+    }, []);
+
+    // Save settings to storage whenever they change
+    useEffect(() => {
+        if (isLoading) return;
+
+        const saveSettings = async () => {
+            try {
+                await saveStored(SETTINGS_STORE, settings);
+            } catch (error) {
+                console.error('Failed to save settings:', error);
+            }
+        };
+
+        saveSettings();
+    }, [settings, isLoading]);
+
+    const updateSettings = (changes: Partial<Settings>) => {
+        setSettings((prevSettings) => ({ ...prevSettings, ...changes }));
+    };
+
+    const jurisdiction = getJurisdiction(settings.jurisdictionId);
+    const licence = getLicenceClass(jurisdiction, settings.licenceId);
+
+    return (
+        <SettingsContext.Provider
+            value={{
+                settings,
+                updateSettings,
+                unit: getStandardDrinkUnit(settings.unitId),
+                jurisdiction,
+                licence,
+                limit: licence.limit,
+                isLoading,
+            }}
+        >
+            {children}
+        </SettingsContext.Provider>
+    );
+};
+
+export const useSettings = () => {
+    const context = useContext(SettingsContext);
+    if (context === undefined) {
+        throw new Error('useSettings must be used within a SettingsProvider');
+    }
+    return context;
+};
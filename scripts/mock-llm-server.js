@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+
+/**
+ * A stand-in for the hosted drink parsers, so the Gemini and
+ * OpenAI-compatible code paths can be exercised without a network or an
+ * API key. It answers both APIs from the canned replies in
+ * mock-llm-fixtures.json:
+ *
+ *   POST /v1/chat/completions                    (OpenAI-compatible)
+ *   POST /v1beta/models/<model>:generateContent  (Gemini)
+ *
+ * The first fixture whose `match` appears in the user's text wins. A fixture
+ * can give `drinks` to return, or a `status` to fail with (e.g. 429).
+ *
+ * Usage: npm run mock-llm   (PORT defaults to 8787)
+ * Then point a provider's base URL at http://localhost:8787/v1 (OpenAI) or
+ * http://localhost:8787/v1beta (Gemini). On an Android emulator use
+ * 10.0.2.2 instead of localhost.
+ */
+
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+
+const PORT = Number(process.env.PORT) || 8787;
+const fixtures = JSON.parse(fs.readFileSync(path.join(__dirname, 'mock-llm-fixtures.json'), 'utf8'));
+
+const findFixture = (text) => {
+  const lower = text.toLowerCase();
+  return fixtures.find((f) => lower.includes(f.match.toLowerCase())) || { drinks: [] };
+};
+
+// Pull the user's description out of either request shape
+const userText = (url, body) => {
+  if (url.includes(':generateContent')) {
+    const contents = body.contents || [];
+    const last = contents[contents.length - 1] || {};
+    return (last.parts || []).map((p) => p.text || '').join(' ');
+  }
+  const messages = (body.messages || []).filter((m) => m.role === 'user');
+  const last = messages[messages.length - 1] || {};
+  return typeof last.content === 'string' ? last.content : '';
+};
+
+const reply = (url, drinks) => {
+  const text = JSON.stringify({ drinks });
+  if (url.includes(':generateContent')) {
+    return { candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }] };
+  }
+  return {
+    id: `mock-${Date.now()}`,
+    object: 'chat.completion',
+    choices: [{ index: 0, message: { role: 'assistant', content: text }, finish_reason: 'stop' }],
+  };
+};
+
+const send = (res, status, payload) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    // The web build calls this from the browser
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-goog-api-key',
+  });
+  res.end(JSON.stringify(payload));
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+
+  const known = req.url.startsWith('/v1/chat/completions') || /^\/v1beta\/models\/[^/]+:generateContent/.test(req.url);
+  if (req.method !== 'POST' || !known) {
+    return send(res, 404, { error: { message: `No mock for ${req.method} ${req.url}` } });
+  }
+
+  let raw = '';
+  req.on('data', (chunk) => { raw += chunk; });
+  req.on('end', () => {
+    let body;
+    try {
+      body = JSON.parse(raw || '{}');
+    } catch {
+      return send(res, 400, { error: { message: 'Request body is not JSON' } });
+    }
+
+    const text = userText(req.url, body);
+    const fixture = findFixture(text);
+    console.log(`${req.method} ${req.url.split('?')[0]} "${text}" -> ${fixture.status || 200}`);
+
+    if (fixture.status) {
+      return send(res, fixture.status, { error: { code: fixture.status, message: fixture.message || 'Mock error' } });
+    }
+    send(res, 200, reply(req.url, fixture.drinks));
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock LLM server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,87 @@
+import {
+  alcoholFreeStreaks,
+  dayTotalsSince,
+  startOfWeek,
+  trackingStart,
+  weekGoalProgress,
+} from '../alcoholFree';
+import { DayTotal } from '../guidelines';
+import { Drink } from '../../types';
+
+// Local times; 15 January 2025 is a Wednesday
+const at = (day: number, hour = 0) => new Date(2025, 0, day, hour).getTime();
+const NOW = at(15, 20);
+
+const drink = (alcoholGrams: number, timestamp: number): Drink => ({
+  id: `drink-${timestamp}`,
+  name: 'Pint',
+  volumeMl: 570,
+  abv: 4.8,
+  alcoholGrams,
+  timestamp,
+});
+
+// Days from the 13th on with the given grams
+const days = (...grams: number[]): DayTotal[] => grams.map((g, i) => ({ dayStart: at(13 + i), grams: g }));
+
+describe('startOfWeek', () => {
+  it('starts weeks on Monday', () => {
+    expect(startOfWeek(NOW)).toBe(at(13));
+    expect(startOfWeek(at(13, 9))).toBe(at(13));
+    expect(startOfWeek(at(19, 23))).toBe(at(13));
+    expect(startOfWeek(at(20, 1))).toBe(at(20));
+  });
+});
+
+describe('tracking', () => {
+  it('starts on the day of the first drink', () => {
+    expect(trackingStart([])).toBeNull();
+    expect(trackingStart([drink(20, at(12, 21)), drink(20, at(10, 19))])).toBe(at(10));
+  });
+
+  it('fills in days without drinks as zero', () => {
+    const drinks = [drink(20, at(13, 19)), drink(10, at(13, 22)), drink(15, at(15, 18))];
+
+    expect(dayTotalsSince(drinks, at(12), NOW)).toEqual([
+      { dayStart: at(12), grams: 0 },
+      { dayStart: at(13), grams: 30 },
+      { dayStart: at(14), grams: 0 },
+      { dayStart: at(15), grams: 15 },
+    ]);
+  });
+});
+
+describe('alcoholFreeStreaks', () => {
+  it('finds the current, longest and total alcohol-free days', () => {
+    expect(alcoholFreeStreaks(days(0, 20, 0, 0, 0, 20, 0, 0))).toEqual({ current: 2, longest: 3, total: 6 });
+  });
+
+  it('has no current streak after drinking today', () => {
+    expect(alcoholFreeStreaks(days(0, 0, 10)).current).toBe(0);
+  });
+});
+
+describe('weekGoalProgress', () => {
+  // Monday had a drink; Tuesday and so far today haven't
+  const week = days(20, 0, 0);
+
+  it('counts alcohol-free days this week and the days left', () => {
+    expect(weekGoalProgress(week, 2, NOW)).toEqual({
+      alcoholFreeDays: 2,
+      goal: 2,
+      daysLeft: 4,
+      met: true,
+      reachable: true,
+    });
+  });
+
+  it('ignores days from last week', () => {
+    const withLastWeek = [{ dayStart: at(12), grams: 0 }, ...week];
+    expect(weekGoalProgress(withLastWeek, 2, NOW).alcoholFreeDays).toBe(2);
+  });
+
+  it('knows when the goal can no longer be met', () => {
+    expect(weekGoalProgress(week, 6, NOW)).toMatchObject({ met: false, reachable: true });
+    expect(weekGoalProgress(week, 7, NOW)).toMatchObject({ met: false, reachable: false });
+  });
+});
@@ -0,0 +1,170 @@
+import { absorbedGrams, BacProfile, bacAt, gramsToBac, simulateBac } from '../bacEngine';
+import { Drink, FoodState } from '../../types';
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2025, 0, 1, 18, 0);
+
+// 6 g burned over the first hour and 3 g an hour after that, with no
+// absorption delay so every drink lands the moment it's had
+const profile: BacProfile = {
+  weight: 80,
+  gender: 'male',
+  firstHourBurn: 6,
+  subsequentHourBurn: 3,
+  absorptionMinutes: 0,
+};
+
+const drink = (alcoholGrams: number, minutesIn: number, food?: FoodState): Drink => ({
+  id: `drink-${minutesIn}`,
+  name: 'Test drink',
+  volumeMl: 375,
+  abv: 4.8,
+  alcoholGrams,
+  timestamp: START + minutesIn * MINUTE,
+  ...(food ? { food } : {}),
+});
+
+// The same drink, drunk steadily over the given minutes
+const spread = (alcoholGrams: number, minutesIn: number, minutes: number): Drink => ({
+  ...drink(alcoholGrams, minutesIn),
+  endTime: START + (minutesIn + minutes) * MINUTE,
+});
+
+const gramsAt = (drinks: Drink[], minutesIn: number, options = {}) => {
+  const simulation = simulateBac(drinks, profile, options);
+  const point = simulation.points.find(p => p.time === START + minutesIn * MINUTE);
+  if (!point) throw new Error(`No point ${minutesIn} minutes in`);
+  return point.bac / gramsToBac(1, profile);
+};
+
+describe('simulateBac', () => {
+  it('returns an empty simulation with no drinks', () => {
+    expect(simulateBac([], profile)).toEqual({
+      points: [],
+      peak: null,
+      belowLimitAt: null,
+      soberAt: null,
+      projected: false,
+    });
+  });
+
+  it('gives the same curve for the same drinks every time', () => {
+    const drinks = [drink(20, 0), drink(14, 45)];
+    expect(simulateBac(drinks, profile)).toEqual(simulateBac([...drinks].reverse(), profile));
+  });
+
+  it('burns at the first-hour rate for the first hour and the subsequent rate after', () => {
+    const drinks = [drink(50, 0)];
+
+    expect(gramsAt(drinks, 0)).toBeCloseTo(50);
+    expect(gramsAt(drinks, 30)).toBeCloseTo(47);
+    expect(gramsAt(drinks, 60)).toBeCloseTo(44);
+    expect(gramsAt(drinks, 90)).toBeCloseTo(42.5);
+    expect(gramsAt(drinks, 120)).toBeCloseTo(41);
+  });
+
+  it('adds up drinks across a session', () => {
+    const drinks = [drink(20, 0), drink(20, 30)];
+    const simulation = simulateBac(drinks, profile);
+
+    expect(gramsAt(drinks, 20)).toBeCloseTo(18);
+    expect(gramsAt(drinks, 30)).toBeCloseTo(37);
+    expect(simulation.peak?.time).toBe(START + 30 * MINUTE);
+    expect(simulation.peak?.bac).toBeCloseTo(gramsToBac(37, profile));
+  });
+
+  it('stays at zero through a gap and keeps the subsequent rate afterwards', () => {
+    const drinks = [drink(10, 0), drink(10, 180)];
+
+    expect(gramsAt(drinks, 60)).toBeCloseTo(4);
+    expect(gramsAt(drinks, 140)).toBeCloseTo(0);
+    expect(gramsAt(drinks, 170)).toBe(0);
+    // The first-hour rate belongs to the session, not to each drink
+    expect(gramsAt(drinks, 180)).toBeCloseTo(9.5);
+    expect(gramsAt(drinks, 190)).toBeCloseTo(9);
+  });
+
+  it('finds when the BAC drops under the limit and back to zero', () => {
+    const simulation = simulateBac([drink(50, 0)], profile, { limit: 0.05 });
+
+    // 0.05% is 27.2 g here: 44 g after the first hour, then 0.5 g a step
+    expect(simulation.belowLimitAt).toBe(START + 400 * MINUTE);
+    expect(simulation.soberAt).toBe(START + 930 * MINUTE);
+    expect(simulation.projected).toBe(false);
+  });
+
+  it('treats a zero limit as being sober', () => {
+    const simulation = simulateBac([drink(50, 0)], profile, { limit: 0 });
+    expect(simulation.belowLimitAt).toBe(simulation.soberAt);
+  });
+
+  it('marks the limit time as projected when the simulation stops first', () => {
+    const simulation = simulateBac([drink(50, 0)], profile, { limit: 0.05, maxHours: 2 });
+
+    expect(simulation.projected).toBe(true);
+    expect(simulation.belowLimitAt).toBe(START + 120 * MINUTE);
+    expect(simulation.soberAt).toBeNull();
+  });
+
+  it('has no limit time when the peak never reaches the limit', () => {
+    const simulation = simulateBac([drink(10, 0)], profile, { limit: 0.05 });
+    expect(simulation.belowLimitAt).toBeNull();
+  });
+
+  it('delays and lowers the peak while a drink is absorbed', () => {
+    const absorbing = { ...profile, absorptionMinutes: 45 };
+    const instant = simulateBac([drink(30, 0)], profile);
+    const simulation = simulateBac([drink(30, 0)], absorbing);
+
+    expect(simulation.points[0].bac).toBe(0);
+    expect(simulation.peak!.time).toBeGreaterThan(START);
+    expect(simulation.peak!.bac).toBeLessThan(instant.peak!.bac);
+  });
+
+  it('gives a lower peak after a meal', () => {
+    const absorbing = { ...profile, absorptionMinutes: 45 };
+    const empty = simulateBac([drink(30, 0, 'empty')], absorbing);
+    const meal = simulateBac([drink(30, 0, 'meal')], absorbing);
+
+    expect(meal.peak!.bac).toBeLessThan(empty.peak!.bac);
+  });
+
+  it('peaks lower and later when a drink is spread over a window', () => {
+    const absorbing = { ...profile, absorptionMinutes: 45 };
+    const atOnce = simulateBac([drink(30, 0)], absorbing);
+    const overAnHour = simulateBac([spread(30, 0, 60)], absorbing);
+
+    expect(overAnHour.peak!.bac).toBeLessThan(atOnce.peak!.bac);
+    expect(overAnHour.peak!.time).toBeGreaterThan(atOnce.peak!.time);
+  });
+});
+
+describe('absorbedGrams', () => {
+  it('takes in a spread drink at a steady rate with no absorption delay', () => {
+    const overAnHour = spread(30, 0, 60);
+
+    expect(absorbedGrams(overAnHour, START + 30 * MINUTE, 0)).toBeCloseTo(15);
+    expect(absorbedGrams(overAnHour, START + 60 * MINUTE, 0)).toBeCloseTo(30);
+  });
+
+  it('absorbs the same total whether a drink is spread or had at once', () => {
+    const later = START + 12 * 60 * MINUTE;
+
+    expect(absorbedGrams(spread(30, 0, 60), later, 45)).toBeCloseTo(30);
+    expect(absorbedGrams(drink(30, 0), later, 45)).toBeCloseTo(30);
+    expect(absorbedGrams(spread(30, 0, 60), START + 30 * MINUTE, 45))
+      .toBeLessThan(absorbedGrams(drink(30, 0), START + 30 * MINUTE, 45));
+  });
+});
+
+describe('bacAt', () => {
+  it('interpolates between simulation steps', () => {
+    const simulation = simulateBac([drink(50, 0)], profile);
+    expect(bacAt(simulation, START + 5 * MINUTE)).toBeCloseTo(gramsToBac(49.5, profile));
+  });
+
+  it('is zero before the first drink', () => {
+    const simulation = simulateBac([drink(50, 0)], profile);
+    expect(bacAt(simulation, START - MINUTE)).toBe(0);
+  });
+});
@@ -0,0 +1,147 @@
+import fixtures from '../../scripts/mock-llm-fixtures.json';
+import { getParserProvider, parseDrinkInput } from '../drinkParser';
+import { DrinkParserError, ParserErrorKind } from '../parserErrors';
+import { DEFAULT_SETTINGS, ParserProviderId, Settings } from '../settings';
+
+// fetch is answered the way scripts/mock-llm-server.js answers, from the
+// same fixtures, so the hosted providers run end to end without a network
+
+interface Fixture {
+  match: string;
+  status?: number;
+  drinks?: unknown[];
+}
+
+const KEY = 'test-key-123';
+
+const settingsFor = (parserProvider: ParserProviderId): Settings => ({
+  ...DEFAULT_SETTINGS,
+  parserProvider,
+  parserEndpoints: {
+    gemini: { ...DEFAULT_SETTINGS.parserEndpoints.gemini, baseUrl: 'http://localhost:8787/v1beta', apiKey: KEY },
+    openai: { ...DEFAULT_SETTINGS.parserEndpoints.openai, baseUrl: 'http://localhost:8787/v1', apiKey: KEY },
+  },
+});
+
+// The two request shapes, as far as the description goes
+interface RequestBody {
+  contents?: { parts: { text: string }[] }[];
+  messages?: { role: string; content: string }[];
+}
+
+const userText = (body: RequestBody): string => {
+  const turns = body.contents
+    ? body.contents.map(c => c.parts[0].text)
+    : (body.messages ?? []).filter(m => m.role === 'user').map(m => m.content);
+  return turns[turns.length - 1] ?? '';
+};
+
+// The reply body each API wraps the model's text in
+const wrap = (url: string, text: string) =>
+  url.includes(':generateContent')
+    ? { candidates: [{ content: { role: 'model', parts: [{ text }] } }] }
+    : { choices: [{ message: { role: 'assistant', content: text } }] };
+
+const respond = (status: number, json: () => Promise<unknown>) =>
+  Promise.resolve({ ok: status >= 200 && status < 300, status, json } as Response);
+
+const mockServer = (url: string, init?: RequestInit) => {
+  const text = userText(JSON.parse(String(init?.body)));
+  const fixture = (fixtures as Fixture[]).find(f => text.toLowerCase().includes(f.match.toLowerCase()));
+
+  if (fixture?.status) return respond(fixture.status, async () => ({ error: { code: fixture.status } }));
+  if (text.includes('malformed')) return respond(200, async () => wrap(url, '{"drinks": [{"name": "Pint"'));
+  if (text.includes('not json')) return respond(200, () => Promise.reject(new SyntaxError('Unexpected token <')));
+  return respond(200, async () => wrap(url, JSON.stringify({ drinks: fixture?.drinks ?? [] })));
+};
+
+const fetchMock = jest.fn(mockServer);
+
+beforeEach(() => {
+  fetchMock.mockClear();
+  global.fetch = fetchMock as unknown as typeof fetch;
+});
+
+const errorKind = async (input: string, provider: ParserProviderId): Promise<ParserErrorKind> => {
+  const error = await parseDrinkInput(input, settingsFor(provider)).catch(e => e);
+  expect(error).toBeInstanceOf(DrinkParserError);
+  return (error as DrinkParserError).kind;
+};
+
+describe.each<ParserProviderId>(['gemini', 'openai'])('the %s provider', provider => {
+  it('returns the drinks the model found', async () => {
+    const { drinks, discarded } = await parseDrinkInput('a pint of guinness and a tequila', settingsFor(provider));
+
+    expect(drinks.map(d => [d.name, d.volumeMl, d.abv])).toEqual([
+      ['Pint of Guinness', 570, 4.2],
+      ['Shot of Tequila', 30, 38],
+    ]);
+    expect(discarded).toBe(0);
+  });
+
+  it('drops invalid items and clamps implausible ones', async () => {
+    const { drinks, discarded } = await parseDrinkInput('garbage', settingsFor(provider));
+
+    expect(discarded).toBe(1);
+    expect(drinks[0]).toMatchObject({ name: 'Shot of Vodka', volumeMl: 30, confidence: 'low' });
+  });
+
+  it('maps a 429 to quota', async () => {
+    expect(await errorKind('over quota', provider)).toBe('quota');
+  });
+
+  it('maps a server error to network', async () => {
+    expect(await errorKind('server error please', provider)).toBe('network');
+  });
+
+  it('maps a failed connection to network', async () => {
+    fetchMock.mockImplementationOnce(() => Promise.reject(new TypeError('Network request failed')));
+    expect(await errorKind('a pint', provider)).toBe('network');
+  });
+
+  it('maps malformed JSON to unparseable', async () => {
+    expect(await errorKind('malformed', provider)).toBe('unparseable');
+    expect(await errorKind('not json', provider)).toBe('unparseable');
+  });
+
+  it('maps gibberish to unparseable', async () => {
+    expect(await errorKind('gibberish', provider)).toBe('unparseable');
+  });
+
+  it('maps an empty list to nothing found', async () => {
+    expect(await errorKind('nothing to see here', provider)).toBe('nothingFound');
+  });
+
+  it('keeps the key and URL out of error messages', async () => {
+    const error = await parseDrinkInput('server error', settingsFor(provider)).catch(e => e);
+
+    expect(error.message).not.toContain(KEY);
+    expect(error.message).not.toContain('localhost');
+  });
+});
+
+describe('the Gemini request', () => {
+  it('sends the key in a header rather than the URL', async () => {
+    await parseDrinkInput('wine', settingsFor('gemini'));
+    const [url, init] = fetchMock.mock.calls[0];
+
+    expect(url).toBe('http://localhost:8787/v1beta/models/gemini-2.5-flash:generateContent');
+    expect(init?.headers).toMatchObject({ 'x-goog-api-key': KEY });
+  });
+});
+
+describe('the offline fallback', () => {
+  it('is used for an unknown provider', () => {
+    expect(getParserProvider('mars' as ParserProviderId).id).toBe('offline');
+  });
+
+  it('reads what a hosted provider could not, without the network', async () => {
+    expect(await errorKind('2 schooners, over quota', 'gemini')).toBe('quota');
+
+    fetchMock.mockClear();
+    const { drinks } = await parseDrinkInput('2 schooners, over quota', settingsFor('offline'));
+
+    expect(drinks).toHaveLength(2);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,183 @@
+import {
+  buildBackup,
+  drinksToCsv,
+  groupIntoSessions,
+  mergeSessions,
+  parseBackup,
+  parseCsv,
+  parseImport,
+} from '../exportImport';
+import { DEFAULT_PROFILE } from '../profile';
+import { createSession } from '../sessions';
+import { getStandardDrinkUnit } from '../standardDrinks';
+import { Drink } from '../../types';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2025, 0, 1, 18, 0);
+const au = getStandardDrinkUnit('au');
+
+const drink = (id: string, hoursIn: number, overrides: Partial<Drink> = {}): Drink => ({
+  id,
+  name: 'Schooner of Lager',
+  volumeMl: 425,
+  abv: 4.8,
+  alcoholGrams: 16.1,
+  timestamp: START + hoursIn * HOUR,
+  ...overrides,
+});
+
+describe('CSV', () => {
+  it('round-trips drinks, including quoted names', () => {
+    const drinks = [drink('a', 0), drink('b', 1, { name: 'Red, "house"', volumeMl: 150, abv: 13.5 })];
+    const { drinks: parsed, rejected } = parseCsv(drinksToCsv(drinks, au));
+
+    expect(rejected).toEqual([]);
+    expect(parsed.map(d => [d.timestamp, d.name, d.volumeMl, d.abv])).toEqual([
+      [START, 'Schooner of Lager', 425, 4.8],
+      [START + HOUR, 'Red, "house"', 150, 13.5],
+    ]);
+  });
+
+  it('keeps line breaks inside quoted names', () => {
+    const drinks = [drink('a', 0, { name: 'Birthday\nshot' }), drink('b', 1)];
+    const { drinks: parsed, rejected } = parseCsv(drinksToCsv(drinks, au));
+
+    expect(rejected).toEqual([]);
+    expect(parsed.map(d => d.name)).toEqual(['Birthday\nshot', 'Schooner of Lager']);
+  });
+
+  it('writes what was actually drunk for part-finished drinks', () => {
+    const csv = drinksToCsv([drink('a', 0, { portion: 0.5, alcoholGrams: 8.05 })], au);
+    expect(parseCsv(csv).drinks[0].volumeMl).toBe(213);
+  });
+
+  it('accepts columns in any order', () => {
+    const csv = `abv,name,timestamp,volumeMl\n5,Pint,${START},570`;
+    expect(parseCsv(csv).drinks).toHaveLength(1);
+  });
+
+  it('rejects a header that is missing columns', () => {
+    const { drinks, rejected } = parseCsv('timestamp,name\n2025-01-01T18:00:00Z,Pint');
+
+    expect(drinks).toEqual([]);
+    expect(rejected[0].reason).toBe('Missing column(s): volumeMl, abv');
+  });
+
+  it('reports bad lines and keeps the good ones', () => {
+    const csv = [
+      'timestamp,name,volumeMl,abv',
+      '2025-01-01T18:00:00Z,Pint,570,5',
+      'yesterday,Pint,570,5',
+      '2025-01-01T19:00:00Z,Pint,570,140',
+      '2025-01-01T20:00:00Z,"Two',
+      'lines",570,5',
+      'soon,Pint,570,5',
+    ].join('\n');
+    const { drinks, rejected } = parseCsv(csv);
+
+    expect(drinks).toHaveLength(2);
+    expect(rejected.map(r => [r.line, r.reason])).toEqual([
+      [3, 'Unreadable timestamp'],
+      [4, 'Invalid name, volume or ABV'],
+      [7, 'Unreadable timestamp'],
+    ]);
+  });
+});
+
+describe('JSON backup', () => {
+  it('round-trips drinks and sessions', () => {
+    const drinks = [drink('a', 0)];
+    const sessions = [createSession([drink('b', -24)], DEFAULT_PROFILE, START - 23 * HOUR)];
+    const payload = parseImport(buildBackup(drinks, sessions, DEFAULT_PROFILE));
+
+    expect(payload.rejected).toEqual([]);
+    expect(payload.drinks).toEqual(drinks);
+    expect(payload.sessions).toEqual(sessions);
+  });
+
+  it('brings back the profile', () => {
+    const profile = { ...DEFAULT_PROFILE, weight: 62, gender: 'female' as const };
+    expect(parseImport(buildBackup([], [], profile)).profile).toEqual(profile);
+    expect(parseCsv(drinksToCsv([drink('a', 0)], au)).profile).toBeUndefined();
+  });
+
+  it('converts version 1 standard drinks to grams', () => {
+    const legacy = JSON.stringify({
+      format: 'standard-drinker-backup',
+      version: 1,
+      profile: { ...DEFAULT_PROFILE, firstHourBurn: 1, subsequentHourBurn: 0.5 },
+      drinks: [{ id: 'a', name: 'Pot', volumeMl: 285, abv: 4.8, standardDrinks: 1.1, timestamp: START }],
+    });
+    const payload = parseBackup(legacy);
+
+    expect(payload.drinks[0].alcoholGrams).toBeCloseTo(11);
+    expect(payload.profile).toMatchObject({ firstHourBurn: 10, subsequentHourBurn: 5 });
+  });
+
+  it('accepts a bare list of drinks', () => {
+    const drinks = [drink('a', 0), drink('b', 1)];
+    const payload = parseImport(JSON.stringify([...drinks, { name: 'Pint' }]));
+
+    expect(payload.drinks).toEqual(drinks);
+    expect(payload.rejected.map(r => [r.line, r.reason])).toEqual([[3, 'Invalid drink']]);
+  });
+
+  it('refuses anything that is not a backup', () => {
+    expect(parseBackup('{"drinks": []}').rejected[0].reason).toBe('Not a Standard Drinker backup');
+    expect(parseBackup('{oops').rejected[0].reason).toBe('Not valid JSON');
+    expect(parseImport('[oops').rejected[0].reason).toBe('Not valid JSON');
+  });
+});
+
+describe('groupIntoSessions', () => {
+  it('starts a new session after a long gap', () => {
+    const sessions = groupIntoSessions([drink('c', 30), drink('a', 0), drink('b', 2)], DEFAULT_PROFILE);
+    expect(sessions.map(s => s.drinks.map(d => d.id))).toEqual([['a', 'b'], ['c']]);
+  });
+});
+
+describe('mergeSessions', () => {
+  // A round added together from the Describe tab shares one timestamp
+  const round = [drink('a', 0), drink('b', 0), drink('c', 0)];
+
+  it('keeps identical drinks from the same import', () => {
+    const incoming = [createSession(round, DEFAULT_PROFILE)];
+    const result = mergeSessions([], [], incoming);
+
+    expect(result.added).toBe(3);
+    expect(result.duplicates).toBe(0);
+    expect(result.sessions[0].drinks).toHaveLength(3);
+  });
+
+  it('skips drinks already stored, by id or by content', () => {
+    const existing = [createSession([drink('a', 0)], DEFAULT_PROFILE)];
+    const current = [drink('live', 0, { name: 'Pint', volumeMl: 570 })];
+    const incoming = [createSession([
+      drink('a', 0),
+      drink('csv-1', 0, { name: 'Pint', volumeMl: 570 }),
+      drink('d', 1),
+    ], DEFAULT_PROFILE)];
+    const result = mergeSessions(existing, current, incoming);
+
+    expect(result.added).toBe(1);
+    expect(result.duplicates).toBe(2);
+  });
+
+  it('adds fresh drinks to a session with the same id', () => {
+    const session = createSession([drink('a', 0)], DEFAULT_PROFILE);
+    const incoming = [{ ...session, drinks: [drink('a', 0), drink('b', 1)] }];
+    const result = mergeSessions([session], [], incoming);
+
+    expect(result.sessions).toHaveLength(1);
+    expect(result.sessions[0].drinks.map(d => d.id)).toEqual(['a', 'b']);
+  });
+
+  it('stretches a session to cover the drinks added to it', () => {
+    const session = createSession([drink('b', 1)], DEFAULT_PROFILE, START + 2 * HOUR);
+    const incoming = [{ ...session, drinks: [drink('a', 0), drink('c', 3, { endTime: START + 4 * HOUR })] }];
+    const [merged] = mergeSessions([session], [], incoming).sessions;
+
+    expect(merged.startTime).toBe(START);
+    expect(merged.endTime).toBe(START + 4 * HOUR);
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  addDays,
+  CUSTOM_GUIDELINE_ID,
+  dailyTotals,
+  guidelineLabel,
+  guidelineLimits,
+  guidelineProgress,
+  isGuidelineId,
+  startOfDay,
+} from '../guidelines';
+import { Drink } from '../../types';
+
+// Local times, since days are counted in the user's own time zone
+const at = (day: number, hour: number, minute = 0) => new Date(2025, 0, day, hour, minute).getTime();
+const NOW = at(15, 20);
+
+const drink = (alcoholGrams: number, timestamp: number): Drink => ({
+  id: `drink-${timestamp}`,
+  name: 'Glass of Red Wine',
+  volumeMl: 150,
+  abv: 13.5,
+  alcoholGrams,
+  timestamp,
+});
+
+describe('guidelineLimits', () => {
+  it('picks the limits for the drinker', () => {
+    expect(guidelineLimits('au', 'female', { dailyGrams: 1, weeklyGrams: 2 })).toEqual({ dailyGrams: 40, weeklyGrams: 100 });
+    expect(guidelineLimits('nz', 'female', { dailyGrams: 1, weeklyGrams: 2 })).toEqual({ dailyGrams: 20, weeklyGrams: 100 });
+  });
+
+  it('uses the custom limits when chosen', () => {
+    const custom = { dailyGrams: null, weeklyGrams: 70 };
+    expect(guidelineLimits(CUSTOM_GUIDELINE_ID, 'male', custom)).toBe(custom);
+  });
+
+  it('recognises known ids only', () => {
+    expect(isGuidelineId('uk')).toBe(true);
+    expect(isGuidelineId(CUSTOM_GUIDELINE_ID)).toBe(true);
+    expect(isGuidelineId('mars')).toBe(false);
+    expect(guidelineLabel('mars')).toBe('Australia (NHMRC)');
+  });
+});
+
+describe('day boundaries', () => {
+  it('starts the day at local midnight', () => {
+    expect(startOfDay(at(15, 23, 59))).toBe(at(15, 0));
+  });
+
+  it('steps whole calendar days', () => {
+    expect(addDays(at(15, 0), -3)).toBe(at(12, 0));
+    expect(addDays(at(31, 0), 1)).toBe(new Date(2025, 1, 1).getTime());
+  });
+});
+
+describe('dailyTotals', () => {
+  it('totals each calendar day, oldest first', () => {
+    const drinks = [drink(10, at(13, 23, 30)), drink(20, at(14, 0, 30)), drink(5, at(15, 18)), drink(5, at(15, 19))];
+
+    expect(dailyTotals(drinks, 3, NOW)).toEqual([
+      { dayStart: at(13, 0), grams: 10 },
+      { dayStart: at(14, 0), grams: 20 },
+      { dayStart: at(15, 0), grams: 10 },
+    ]);
+  });
+});
+
+describe('guidelineProgress', () => {
+  const limits = { dailyGrams: 40, weeklyGrams: 100 };
+
+  it('counts today, including drinks logged for later tonight', () => {
+    const progress = guidelineProgress([drink(30, at(15, 18)), drink(15, at(15, 22))], limits, NOW);
+
+    expect(progress.todayGrams).toBe(45);
+    expect(progress.overDaily).toBe(true);
+  });
+
+  it('counts the last seven days for the week', () => {
+    const drinks = [drink(50, at(7, 12)), drink(60, at(9, 12)), drink(30, at(15, 18))];
+    const progress = guidelineProgress(drinks, limits, NOW);
+
+    expect(progress.weekGrams).toBe(90);
+    expect(progress.overWeekly).toBe(false);
+  });
+
+  it('is never over a cap the guideline does not have', () => {
+    const progress = guidelineProgress([drink(200, at(15, 18))], { dailyGrams: null, weeklyGrams: null }, NOW);
+
+    expect(progress.overDaily).toBe(false);
+    expect(progress.overWeekly).toBe(false);
+  });
+});
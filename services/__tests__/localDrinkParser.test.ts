@@ -0,0 +1,110 @@
+import { parseDrinkDescription } from '../localDrinkParser';
+
+// Just the parts worth comparing: what was drunk, how much and how strong
+const summary = (input: string) =>
+  parseDrinkDescription(input).map(d => [d.name, d.volumeMl, d.abv]);
+
+describe('parseDrinkDescription', () => {
+  it('reads a count, a serve and a drink', () => {
+    const drinks = parseDrinkDescription('2 schooners of full strength');
+
+    expect(drinks.map(d => [d.name, d.volumeMl, d.abv])).toEqual([
+      ['Schooner of Full Strength', 425, 4.8],
+      ['Schooner of Full Strength', 425, 4.8],
+    ]);
+    expect(drinks[0].confidence).toBe('high');
+  });
+
+  it('splits separate drinks on "and", commas and "then"', () => {
+    expect(summary('a pint and a shot of tequila, then a glass of red')).toEqual([
+      ['Pint of Full Strength', 570, 4.8],
+      ['Shot of Tequila', 30, 38],
+      ['Glass of Red Wine', 150, 13.5],
+    ]);
+  });
+
+  it('counts quantity words after "a"', () => {
+    expect(parseDrinkDescription('a couple of G&Ts')).toHaveLength(2);
+    expect(parseDrinkDescription('a few beers')).toHaveLength(3);
+    expect(parseDrinkDescription('3 x pot')).toHaveLength(3);
+  });
+
+  it('scales one drink for fractions', () => {
+    expect(summary('half a bottle of red')).toEqual([['Half bottle of Red Wine', 375, 13.5]]);
+  });
+
+  it('keeps a spirit and its mixer as one drink', () => {
+    expect(summary('a bourbon and coke')).toEqual([['Whisky & Coke', 30, 40]]);
+    expect(summary('a rum and coke and a pint')).toEqual([
+      ['Rum & Coke', 30, 37],
+      ['Pint of Full Strength', 570, 4.8],
+    ]);
+  });
+
+  it('treats a spirit and mixer in a can as a premix', () => {
+    const drinks = parseDrinkDescription('2 cans of bourbon and coke');
+
+    expect(drinks.map(d => [d.name, d.volumeMl, d.abv])).toEqual([
+      ['Can of Whisky & Coke (premix)', 375, 5],
+      ['Can of Whisky & Coke (premix)', 375, 5],
+    ]);
+    expect(drinks[0].confidence).toBe('medium');
+  });
+
+  it('is unsure about spirits in other beer serves', () => {
+    expect(parseDrinkDescription('a jug of vodka')[0].confidence).toBe('low');
+  });
+
+  it('reads a serve on its own', () => {
+    expect(summary('a shot')).toEqual([['Shot of Spirits', 30, 40]]);
+    expect(summary('a pint')).toEqual([['Pint of Full Strength', 570, 4.8]]);
+  });
+
+  it('uses an explicit volume and ABV', () => {
+    expect(summary('250ml of 12% cider')).toEqual([['250ml of Cider (12%)', 250, 12]]);
+  });
+
+  it('notes what it had to guess', () => {
+    const [drink] = parseDrinkDescription('a gin');
+
+    expect(drink.confidence).toBe('medium');
+    expect(drink.assumptions).toContain('Assumed a shot (30 ml)');
+  });
+
+  it('leaves out mixers and soft drinks on their own', () => {
+    expect(parseDrinkDescription('a red bull')).toEqual([]);
+    expect(parseDrinkDescription('a pint of water')).toEqual([]);
+    expect(parseDrinkDescription('a can of coke')).toEqual([]);
+    expect(parseDrinkDescription('an alcohol-free beer')).toEqual([]);
+    expect(summary('a pint and a water')).toEqual([['Pint of Full Strength', 570, 4.8]]);
+  });
+
+  it('only reads a colour as wine when it is not part of a mixer', () => {
+    expect(summary('a vodka red bull')).toEqual([['Vodka & Red Bull', 30, 40]]);
+    expect(summary('a glass of red')).toEqual([['Glass of Red Wine', 150, 13.5]]);
+  });
+
+  it('keeps "and a half" with its number', () => {
+    expect(summary('2 and a half pints')).toEqual([
+      ['Pint of Full Strength', 570, 4.8],
+      ['Pint of Full Strength', 570, 4.8],
+      ['Half pint of Full Strength', 285, 4.8],
+    ]);
+    expect(parseDrinkDescription('two and a half schooners')).toHaveLength(3);
+  });
+
+  it('reads volumes spelled out in words', () => {
+    expect(summary('a litre of cider')).toEqual([['1000ml of Cider', 1000, 5]]);
+    expect(summary('half a litre of white wine')).toEqual([['500ml of White Wine', 500, 11.5]]);
+  });
+
+  it('reads a pack as that many cans', () => {
+    expect(summary('6 pack of beer')).toEqual(Array(6).fill(['Stubby of Full Strength', 375, 4.8]));
+    expect(parseDrinkDescription('a six pack')).toHaveLength(6);
+  });
+
+  it('returns nothing when there is nothing to go on', () => {
+    expect(parseDrinkDescription('something nice')).toEqual([]);
+    expect(parseDrinkDescription('')).toEqual([]);
+  });
+});
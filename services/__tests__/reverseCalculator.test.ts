@@ -0,0 +1,88 @@
+import { BacProfile } from '../bacEngine';
+import { reverseCalculate, ReverseQuery } from '../reverseCalculator';
+import { Drink } from '../../types';
+
+const MINUTE = 60 * 1000;
+const NOW = Date.UTC(2025, 0, 1, 19, 0);
+
+// With no absorption delay and a steady burn the answers can be worked out
+// by hand: 0.05% is 27.2 g at 80 kg, and 15 g is burned over four hours
+const profile: BacProfile = {
+  weight: 80,
+  gender: 'male',
+  firstHourBurn: 6,
+  subsequentHourBurn: 3,
+  absorptionMinutes: 0,
+};
+
+const query = (overrides: Partial<ReverseQuery> = {}): ReverseQuery => ({
+  targetTime: NOW + 240 * MINUTE,
+  now: NOW,
+  limit: 0.05,
+  gramsPerDrink: 10,
+  spacingMinutes: 30,
+  ...overrides,
+});
+
+const logged = (alcoholGrams: number, minutesIn: number): Drink => ({
+  id: `logged-${minutesIn}`,
+  name: 'Pint',
+  volumeMl: 570,
+  abv: 4.8,
+  alcoholGrams,
+  timestamp: NOW + minutesIn * MINUTE,
+});
+
+describe('reverseCalculate', () => {
+  it('finds how much could be had now', () => {
+    expect(reverseCalculate([], profile, query()).maxGramsNow).toBeCloseTo(42.2, 2);
+  });
+
+  it('takes what has already been drunk into account', () => {
+    expect(reverseCalculate([logged(40, 0)], profile, query()).maxGramsNow).toBeCloseTo(2.2, 2);
+  });
+
+  it('counts drinks at the chosen spacing', () => {
+    const result = reverseCalculate([], profile, query());
+
+    expect(result.count).toBe(4);
+    expect(result.lastDrinkAt).toBe(NOW + 90 * MINUTE);
+  });
+
+  it('stops scheduling at the target time', () => {
+    const result = reverseCalculate([], profile, query({ gramsPerDrink: 1, spacingMinutes: 60 }));
+
+    expect(result.count).toBe(4);
+    expect(result.lastDrinkAt).toBe(NOW + 180 * MINUTE);
+  });
+
+  it('finds the last call for a single drink', () => {
+    expect(reverseCalculate([], profile, query({ gramsPerDrink: 40 })).lastCallAt).toBe(NOW + 40 * MINUTE);
+  });
+
+  it('has nothing to offer when there is no room for the drink', () => {
+    const result = reverseCalculate([logged(40, 0)], profile, query());
+
+    expect(result.count).toBe(0);
+    expect(result.lastDrinkAt).toBeNull();
+    expect(result.lastCallAt).toBeNull();
+  });
+
+  it('gives nothing when already too far over to make the target', () => {
+    expect(reverseCalculate([logged(100, 0)], profile, query())).toEqual({
+      maxGramsNow: 0,
+      count: 0,
+      lastDrinkAt: null,
+      lastCallAt: null,
+    });
+  });
+
+  it('gives nothing for a target in the past', () => {
+    expect(reverseCalculate([], profile, query({ targetTime: NOW - MINUTE })).maxGramsNow).toBe(0);
+  });
+
+  it('allows less with a zero limit', () => {
+    const result = reverseCalculate([], profile, query({ limit: 0 }));
+    expect(result.maxGramsNow).toBeLessThan(reverseCalculate([], profile, query()).maxGramsNow);
+  });
+});
@@ -0,0 +1,86 @@
+import { Drink } from '../types';
+import { addDays, DayTotal, startOfDay } from './guidelines';
+
+// Alcohol-free days are counted from the first drink on record: before that
+// the app simply wasn't being used, so those days prove nothing.
+
+export const DEFAULT_ALCOHOL_FREE_GOAL = 2;
+export const MAX_ALCOHOL_FREE_GOAL = 7;
+
+export interface StreakSummary {
+  // Alcohol-free days running up to and including today
+  current: number;
+  longest: number;
+  // Alcohol-free days since tracking began
+  total: number;
+}
+
+export interface WeekGoalProgress {
+  alcoholFreeDays: number;
+  goal: number;
+  // Days after today left in the week
+  daysLeft: number;
+  met: boolean;
+  // Still possible if every remaining day is alcohol-free
+  reachable: boolean;
+}
+
+// Weeks start on Monday: 0 for Monday through 6 for Sunday
+const dayOfWeek = (time: number): number => (new Date(time).getDay() + 6) % 7;
+
+export const startOfWeek = (time: number): number => addDays(startOfDay(time), -dayOfWeek(time));
+
+// Grams per calendar day from `from` to today, oldest first. Days outside
+// the drinks' range are simply zero.
+export const dayTotalsSince = (drinks: Drink[], from: number, now: number): DayTotal[] => {
+  const grams = new Map<number, number>();
+  for (const drink of drinks) {
+    const day = startOfDay(drink.timestamp);
+    grams.set(day, (grams.get(day) ?? 0) + drink.alcoholGrams);
+  }
+
+  const totals: DayTotal[] = [];
+  const today = startOfDay(now);
+  for (let day = startOfDay(from); day <= today; day = addDays(day, 1)) {
+    totals.push({ dayStart: day, grams: grams.get(day) ?? 0 });
+  }
+  return totals;
+};
+
+// First day that counts, or null with nothing on record
+export const trackingStart = (drinks: Drink[]): number | null =>
+  drinks.length > 0 ? startOfDay(Math.min(...drinks.map(d => d.timestamp))) : null;
+
+// Streaks over consecutive days, oldest first and ending today
+export const alcoholFreeStreaks = (days: DayTotal[]): StreakSummary => {
+  let run = 0;
+  let longest = 0;
+  let total = 0;
+
+  for (const day of days) {
+    if (day.grams > 0) {
+      run = 0;
+    } else {
+      run++;
+      total++;
+      longest = Math.max(longest, run);
+    }
+  }
+
+  return { current: run, longest, total };
+};
+
+// Today counts as alcohol-free until something is logged for it
+export const weekGoalProgress = (days: DayTotal[], goal: number, now: number): WeekGoalProgress => {
+  const weekStart = startOfWeek(now);
+  const alcoholFreeDays = days.filter(d => d.dayStart >= weekStart && d.grams === 0).length;
+  const daysLeft = 6 - dayOfWeek(now);
+
+  return {
+    alcoholFreeDays,
+    goal,
+    daysLeft,
+    met: alcoholFreeDays >= goal,
+    reachable: alcoholFreeDays + daysLeft >= goal,
+  };
+};
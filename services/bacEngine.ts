@@ -0,0 +1,220 @@
+import { Drink, FoodState, Gender } from '../types';
+
+// Headless BAC simulation shared by the graph, the main screen and anything
+// else that needs to reason about a session. Everything in here is pure:
+// the same drinks and profile always produce the same curve.
+
+export interface BacProfile {
+  weight: number;
+  gender: Gender;
+  // Grams of alcohol burned during the first hour of the session
+  firstHourBurn: number;
+  // Grams of alcohol burned per hour after that
+  subsequentHourBurn: number;
+  // Minutes for a drink to be (almost) fully absorbed. 0 models the old
+  // behaviour where a drink hits the bloodstream the moment it's logged.
+  absorptionMinutes: number;
+}
+
+export interface BacPoint {
+  time: number;
+  bac: number;
+}
+
+export interface BacOptions {
+  // Legal limit used for the "below limit at" calculation. A zero limit
+  // means being back to (effectively) no alcohol at all.
+  limit?: number;
+  stepMinutes?: number;
+  // Hard stop for the simulation, measured from the first drink
+  maxHours?: number;
+}
+
+export interface BacSimulation {
+  points: BacPoint[];
+  peak: BacPoint | null;
+  // First point at or after the peak where the BAC is back under the limit.
+  // Null when the peak never reached the limit.
+  belowLimitAt: number | null;
+  // First point after the last drink where the BAC has returned to ~zero
+  soberAt: number | null;
+  // True when the simulation hit maxHours before dropping under the limit
+  projected: boolean;
+}
+
+export const DEFAULT_LIMIT = 0.05;
+export const SOBER_BAC = 0.001;
+export const DEFAULT_ABSORPTION_MINUTES = 45;
+
+// How food changes absorption. A fuller stomach slows gastric emptying, which
+// stretches out the time to peak, and more of the alcohol is broken down
+// before it reaches the bloodstream (first-pass metabolism).
+export const FOOD_ABSORPTION: Record<FoodState, { timeToPeakFactor: number; bioavailability: number }> = {
+  empty: { timeToPeakFactor: 1, bioavailability: 1 },
+  snack: { timeToPeakFactor: 1.5, bioavailability: 0.85 },
+  meal: { timeToPeakFactor: 2, bioavailability: 0.7 },
+};
+
+// Grams still sitting in the stomach below which absorption is treated as
+// finished
+const UNABSORBED_EPSILON = 0.1;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Widmark Factor (r)
+// Approximate volume of distribution: Men ~0.68, Women ~0.55
+export const widmarkFactor = (gender: Gender): number => {
+  return gender === 'male' ? 0.68 : 0.55;
+};
+
+// Convert net grams of alcohol in the body to BAC % (g per 100 ml of blood)
+export const gramsToBac = (grams: number, profile: Pick<BacProfile, 'weight' | 'gender'>): number => {
+  const w = profile.weight > 0 ? profile.weight : 1;
+  return grams / (w * widmarkFactor(profile.gender) * 10);
+};
+
+// Grams from a drink that will eventually reach the bloodstream
+export const bioavailableGrams = (drink: Drink): number => {
+  return drink.alcoholGrams * FOOD_ABSORPTION[drink.food ?? 'empty'].bioavailability;
+};
+
+// When the last of a drink went down
+export const drinkEndTime = (drink: Drink): number => {
+  return drink.endTime !== undefined && drink.endTime > drink.timestamp ? drink.endTime : drink.timestamp;
+};
+
+// First-order absorption: the unabsorbed amount decays exponentially, with the
+// rate chosen so 95% of the drink has been absorbed after `absorptionMinutes`
+// (scaled up by whatever was eaten).
+//
+// A drink with an end time is taken in at a steady rate between its start and
+// end, so what's absorbed is that first-order curve averaged over the window.
+export const absorbedGrams = (drink: Drink, time: number, absorptionMinutes: number): number => {
+  if (time < drink.timestamp) return 0;
+
+  const available = bioavailableGrams(drink);
+  const start = drink.timestamp;
+  const end = drinkEndTime(drink);
+  const duration = end - start;
+  const timeToPeak = absorptionMinutes * FOOD_ABSORPTION[drink.food ?? 'empty'].timeToPeakFactor;
+
+  if (timeToPeak <= 0) {
+    return duration > 0 ? available * Math.min(1, (time - start) / duration) : available;
+  }
+
+  const ka = Math.log(20) / (timeToPeak * MINUTE_MS);
+  if (duration <= 0) {
+    return available * (1 - Math.exp(-ka * (time - start)));
+  }
+
+  // Integral of (1 - e^(-ka * (time - s))) over the part of the window
+  // already drunk, divided by the window's length
+  const drunkUntil = Math.min(time, end);
+  const integral = (drunkUntil - start)
+    - (Math.exp(-ka * (time - drunkUntil)) - Math.exp(-ka * (time - start))) / ka;
+  return available * (integral / duration);
+};
+
+export const simulateBac = (
+  drinks: Drink[],
+  profile: BacProfile,
+  options: BacOptions = {}
+): BacSimulation => {
+  const { limit = DEFAULT_LIMIT, stepMinutes = 10, maxHours = 24 } = options;
+
+  if (drinks.length === 0) {
+    return { points: [], peak: null, belowLimitAt: null, soberAt: null, projected: false };
+  }
+
+  const sortedDrinks = [...drinks].sort((a, b) => a.timestamp - b.timestamp);
+  const startTime = sortedDrinks[0].timestamp;
+  const lastDrinkTime = Math.max(...sortedDrinks.map(drinkEndTime));
+
+  const stepMs = stepMinutes * MINUTE_MS;
+  const stepBurnFirstHour = (profile.firstHourBurn / 60) * stepMinutes;
+  const stepBurnSubsequent = (profile.subsequentHourBurn / 60) * stepMinutes;
+  const maxSteps = Math.ceil((maxHours * 60) / stepMinutes);
+
+  const totalGrams = sortedDrinks.reduce((sum, d) => sum + bioavailableGrams(d), 0);
+  const absorbedBy = (time: number) =>
+    sortedDrinks.reduce((sum, d) => sum + absorbedGrams(d, time, profile.absorptionMinutes), 0);
+
+  let absorbed = absorbedBy(startTime);
+  let currentNetGrams = absorbed;
+  let currentTime = startTime;
+  let timeSinceStart = 0;
+
+  const points: BacPoint[] = [{ time: startTime, bac: gramsToBac(currentNetGrams, profile) }];
+
+  for (let steps = 0; steps < maxSteps; steps++) {
+    const nextTime = currentTime + stepMs;
+
+    const nextAbsorbed = absorbedBy(nextTime);
+    currentNetGrams += nextAbsorbed - absorbed;
+    absorbed = nextAbsorbed;
+
+    const burnAmount = timeSinceStart < HOUR_MS ? stepBurnFirstHour : stepBurnSubsequent;
+    if (currentNetGrams > 0) {
+      currentNetGrams = Math.max(0, currentNetGrams - burnAmount);
+    }
+
+    const bac = gramsToBac(currentNetGrams, profile);
+    points.push({ time: nextTime, bac });
+
+    const stillAbsorbing = totalGrams - absorbed > UNABSORBED_EPSILON;
+    if (currentTime > lastDrinkTime && !stillAbsorbing && bac <= SOBER_BAC) {
+      break;
+    }
+
+    currentTime = nextTime;
+    timeSinceStart += stepMs;
+  }
+
+  return { points, ...summarisePoints(points, lastDrinkTime, limit) };
+};
+
+const summarisePoints = (points: BacPoint[], lastDrinkTime: number, limit: number) => {
+  let peakIndex = 0;
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].bac > points[peakIndex].bac) peakIndex = i;
+  }
+  const peak = points[peakIndex];
+
+  // Nothing is ever exactly zero, so zero tolerance is measured against the
+  // same threshold we use for being sober
+  const threshold = Math.max(limit, SOBER_BAC);
+
+  let belowLimitAt: number | null = null;
+  let projected = false;
+  if (peak.bac >= limit && peak.bac > SOBER_BAC) {
+    const below = points.slice(peakIndex).find(p => p.bac <= threshold);
+    if (below) {
+      belowLimitAt = below.time;
+    } else {
+      belowLimitAt = points[points.length - 1].time;
+      projected = true;
+    }
+  }
+
+  const sober = points.slice(peakIndex).find(p => p.time > lastDrinkTime && p.bac <= SOBER_BAC);
+
+  return { peak, belowLimitAt, soberAt: sober ? sober.time : null, projected };
+};
+
+// Estimated BAC at an arbitrary time, interpolated between simulation steps
+export const bacAt = (simulation: BacSimulation, time: number): number => {
+  const { points } = simulation;
+  if (points.length === 0 || time < points[0].time) return 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const next = points[i];
+    if (time <= next.time) {
+      const ratio = (time - prev.time) / (next.time - prev.time);
+      return prev.bac + (next.bac - prev.bac) * ratio;
+    }
+  }
+
+  return points[points.length - 1].bac;
+};
@@ -0,0 +1,176 @@
+import { COMMON_SIZES } from '../types';
+
+// A bundled, offline list of common brands and products with the serves
+// they usually come in. ABVs are typical Australian figures; recipes and
+// markets vary, so the label always wins.
+
+export type BeverageCategory = 'beer' | 'cider' | 'premix' | 'wine' | 'sparkling' | 'fortified' | 'spirit';
+
+export interface CatalogueServe {
+  label: string;
+  volumeMl: number;
+}
+
+export interface CatalogueEntry {
+  id: string;
+  name: string;
+  category: BeverageCategory;
+  abv: number;
+  serves: CatalogueServe[];
+  // Other names people use for it, matched by search and the text parser
+  aliases: string[];
+  // Added by the user rather than bundled with the app
+  custom?: boolean;
+}
+
+export const BEVERAGE_CATEGORIES: { value: BeverageCategory; label: string }[] = [
+  { value: 'beer', label: 'Beer' },
+  { value: 'cider', label: 'Cider' },
+  { value: 'premix', label: 'Premix' },
+  { value: 'wine', label: 'Wine' },
+  { value: 'sparkling', label: 'Sparkling' },
+  { value: 'fortified', label: 'Fortified & Liqueur' },
+  { value: 'spirit', label: 'Spirit' },
+];
+
+const size = (label: string, volumeMl: number): CatalogueServe => ({ label, volumeMl });
+const sizeOf = (label: string) => COMMON_SIZES.find(s => s.label === label)?.volume ?? 0;
+
+const STUBBY = size('Stubby', sizeOf('Stubby/Can'));
+const CAN = size('Can', sizeOf('Stubby/Can'));
+const POT = size('Pot', sizeOf('Pot/Middy'));
+const SCHOONER = size('Schooner', sizeOf('Schooner'));
+const PINT = size('Pint', sizeOf('Pint'));
+const TALLIE = size('Tallie', 500);
+const BOTTLE_330 = size('Bottle', 330);
+const GLASS = size('Glass', sizeOf('Std Wine'));
+const WINE_BOTTLE = size('Bottle', sizeOf('Bottle (Wine)'));
+const FLUTE = size('Flute', 120);
+const NIP = size('Nip', sizeOf('Nip/Shot'));
+const DOUBLE = size('Double', 60);
+const SMALL_POUR = size('Glass', 60);
+
+const TAP_BEER = [SCHOONER, POT, PINT, STUBBY];
+const IMPORTED_BEER = [BOTTLE_330, SCHOONER, PINT];
+
+const entry = (
+  id: string,
+  name: string,
+  category: BeverageCategory,
+  abv: number,
+  serves: CatalogueServe[],
+  aliases: string[] = []
+): CatalogueEntry => ({ id, name, category, abv, serves, aliases });
+
+export const BUNDLED_CATALOGUE: CatalogueEntry[] = [
+  // Beer
+  entry('vb', 'VB', 'beer', 4.9, TAP_BEER, ['victoria bitter']),
+  entry('carlton-draught', 'Carlton Draught', 'beer', 4.6, TAP_BEER, ['carlton']),
+  entry('carlton-dry', 'Carlton Dry', 'beer', 4.5, [STUBBY, SCHOONER]),
+  entry('great-northern-original', 'Great Northern Original', 'beer', 4.2, [STUBBY, CAN, SCHOONER], ['great northern', 'gn']),
+  entry('great-northern-super-crisp', 'Great Northern Super Crisp', 'beer', 3.5, [STUBBY, CAN, SCHOONER], ['super crisp']),
+  entry('xxxx-gold', 'XXXX Gold', 'beer', 3.5, TAP_BEER, ['xxxx', 'fourex']),
+  entry('tooheys-new', 'Tooheys New', 'beer', 4.6, TAP_BEER, ['tooheys']),
+  entry('hahn-super-dry', 'Hahn Super Dry', 'beer', 4.6, TAP_BEER, ['hahn']),
+  entry('hahn-premium-light', 'Hahn Premium Light', 'beer', 2.6, [STUBBY, SCHOONER], ['hahn light']),
+  entry('cascade-premium-light', 'Cascade Premium Light', 'beer', 2.6, [STUBBY, SCHOONER], ['cascade light']),
+  entry('pure-blonde', 'Pure Blonde', 'beer', 4.2, [STUBBY, SCHOONER]),
+  entry('coopers-pale-ale', 'Coopers Pale Ale', 'beer', 4.5, TAP_BEER, ['coopers pale', 'coopers']),
+  entry('coopers-sparkling-ale', 'Coopers Sparkling Ale', 'beer', 5.8, [STUBBY, SCHOONER], ['coopers sparkling']),
+  entry('stone-and-wood-pacific', 'Stone & Wood Pacific Ale', 'beer', 4.4, TAP_BEER, ['stone and wood', 'stone & wood', 'pacific ale']),
+  entry('little-creatures-pale-ale', 'Little Creatures Pale Ale', 'beer', 5.2, TAP_BEER, ['little creatures']),
+  entry('james-squire-150-lashes', 'James Squire 150 Lashes', 'beer', 4.2, TAP_BEER, ['150 lashes', 'james squire']),
+  entry('furphy', 'Furphy', 'beer', 4.4, TAP_BEER),
+  entry('balter-xpa', 'Balter XPA', 'beer', 5.0, [CAN, SCHOONER, PINT], ['balter']),
+  entry('guinness-draught', 'Guinness Draught', 'beer', 4.2, [PINT, SCHOONER, TALLIE], ['guinness']),
+  entry('corona', 'Corona Extra', 'beer', 4.5, [size('Bottle', 355)], ['corona']),
+  entry('heineken', 'Heineken', 'beer', 5.0, IMPORTED_BEER),
+  entry('peroni-nastro-azzurro', 'Peroni Nastro Azzurro', 'beer', 5.1, IMPORTED_BEER, ['peroni']),
+  entry('asahi-super-dry', 'Asahi Super Dry', 'beer', 5.0, IMPORTED_BEER, ['asahi']),
+  entry('stella-artois', 'Stella Artois', 'beer', 5.0, IMPORTED_BEER, ['stella']),
+
+  // Cider
+  entry('strongbow-original', 'Strongbow Original', 'cider', 5.0, [STUBBY, SCHOONER], ['strongbow']),
+  entry('somersby-apple', 'Somersby Apple', 'cider', 4.5, [BOTTLE_330, SCHOONER], ['somersby']),
+
+  // Premixed drinks
+  entry('vodka-cruiser', 'Vodka Cruiser', 'premix', 4.6, [size('Bottle', 275)], ['cruiser']),
+  entry('jim-beam-cola', 'Jim Beam & Cola', 'premix', 4.8, [CAN], ['jim beam and cola', 'beam and cola']),
+  entry('canadian-club-dry', 'Canadian Club & Dry', 'premix', 4.8, [CAN], ['cc and dry', 'canadian club and dry']),
+  entry('bundaberg-rum-cola', 'Bundaberg Rum & Cola', 'premix', 4.6, [CAN], ['bundy and cola', 'bundy can']),
+  entry('white-claw', 'White Claw', 'premix', 4.0, [size('Can', 330)], ['seltzer']),
+
+  // Wine
+  entry('sauvignon-blanc', 'Sauvignon Blanc', 'wine', 12.5, [GLASS, WINE_BOTTLE], ['sauv blanc', 'sav blanc', 'savvy b']),
+  entry('chardonnay', 'Chardonnay', 'wine', 13.0, [GLASS, WINE_BOTTLE], ['chardy']),
+  entry('pinot-grigio', 'Pinot Grigio', 'wine', 12.0, [GLASS, WINE_BOTTLE], ['pinot gris']),
+  entry('rose', 'Rosé', 'wine', 12.5, [GLASS, WINE_BOTTLE], ['rose']),
+  entry('moscato', 'Moscato', 'wine', 7.0, [GLASS, WINE_BOTTLE]),
+  entry('shiraz', 'Shiraz', 'wine', 14.5, [GLASS, WINE_BOTTLE], ['syrah']),
+  entry('cabernet-sauvignon', 'Cabernet Sauvignon', 'wine', 14.0, [GLASS, WINE_BOTTLE], ['cab sav', 'cabernet']),
+  entry('pinot-noir', 'Pinot Noir', 'wine', 13.5, [GLASS, WINE_BOTTLE]),
+
+  // Sparkling
+  entry('prosecco', 'Prosecco', 'sparkling', 11.0, [FLUTE, GLASS, WINE_BOTTLE]),
+  entry('champagne', 'Champagne', 'sparkling', 12.0, [FLUTE, GLASS, WINE_BOTTLE]),
+
+  // Fortified and liqueurs
+  entry('port', 'Tawny Port', 'fortified', 18.0, [SMALL_POUR], ['port', 'tawny']),
+  entry('baileys', 'Baileys Irish Cream', 'fortified', 17.0, [SMALL_POUR, NIP], ['baileys']),
+  entry('aperol', 'Aperol', 'fortified', 11.0, [SMALL_POUR], ['aperol spritz']),
+
+  // Spirits
+  entry('jagermeister', 'Jägermeister', 'spirit', 35.0, [NIP, DOUBLE], ['jager', 'jagermeister']),
+  entry('bundaberg-up-rum', 'Bundaberg UP Rum', 'spirit', 37.0, [NIP, DOUBLE], ['bundy', 'bundaberg']),
+  entry('bacardi-carta-blanca', 'Bacardi Carta Blanca', 'spirit', 37.5, [NIP, DOUBLE], ['bacardi']),
+  entry('smirnoff-red', 'Smirnoff Red', 'spirit', 37.0, [NIP, DOUBLE], ['smirnoff']),
+  entry('absolut', 'Absolut Vodka', 'spirit', 40.0, [NIP, DOUBLE], ['absolut']),
+  entry('gordons-gin', "Gordon's Gin", 'spirit', 37.5, [NIP, DOUBLE], ['gordons']),
+  entry('bombay-sapphire', 'Bombay Sapphire', 'spirit', 40.0, [NIP, DOUBLE], ['bombay']),
+  entry('jim-beam-white', 'Jim Beam White', 'spirit', 37.0, [NIP, DOUBLE], ['jim beam']),
+  entry('jack-daniels', "Jack Daniel's", 'spirit', 40.0, [NIP, DOUBLE], ['jack daniels', 'jd']),
+  entry('jameson', 'Jameson', 'spirit', 40.0, [NIP, DOUBLE]),
+  entry('johnnie-walker-red', 'Johnnie Walker Red Label', 'spirit', 40.0, [NIP, DOUBLE], ['johnnie walker', 'red label']),
+  entry('jose-cuervo', 'Jose Cuervo Especial', 'spirit', 38.0, [NIP, DOUBLE], ['cuervo']),
+];
+
+const normalise = (value: string) =>
+  value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9&]+/g, ' ').trim();
+
+// Lower is better: a name that starts with the query beats one that merely
+// contains it, and names beat aliases
+const matchScore = (entry: CatalogueEntry, query: string): number | null => {
+  const name = normalise(entry.name);
+  if (name.startsWith(query)) return 0;
+  if (name.split(' ').some(word => word.startsWith(query))) return 1;
+  if (entry.aliases.some(alias => normalise(alias).startsWith(query))) return 2;
+  if (name.includes(query)) return 3;
+  return null;
+};
+
+export const searchCatalogue = (entries: CatalogueEntry[], query: string, limit: number = 8): CatalogueEntry[] => {
+  const q = normalise(query);
+  if (!q) return [];
+
+  return entries
+    .map(entry => ({ entry, score: matchScore(entry, q) }))
+    .filter((m): m is { entry: CatalogueEntry; score: number } => m.score !== null)
+    .sort((a, b) => a.score - b.score || a.entry.name.localeCompare(b.entry.name))
+    .slice(0, limit)
+    .map(m => m.entry);
+};
+
+export const createCatalogueEntry = (
+  name: string,
+  category: BeverageCategory,
+  abv: number,
+  serve: CatalogueServe
+): CatalogueEntry => ({
+  id: `custom-${Date.now()}`,
+  name: name.trim(),
+  category,
+  abv,
+  serves: [serve],
+  aliases: [],
+  custom: true,
+});
@@ -0,0 +1,68 @@
+import { ParsedDrink } from '../types';
+import { parseWithGemini } from './geminiService';
+import { parseDrinkDescription } from './localDrinkParser';
+import { parseWithOpenAi } from './openAiService';
+import { DrinkParserError } from './parserErrors';
+import { ParserProviderId, Settings } from './settings';
+import { validateParsedDrink } from './validation';
+
+// Every way of turning a free-text description into drinks sits behind the
+// same interface, so SmartInput doesn't care which one the user picked.
+
+export interface DrinkParserProvider {
+  id: ParserProviderId;
+  label: string;
+  description: string;
+  // Hosted providers need an endpoint and send the description off-device
+  remote: boolean;
+  // Results are unchecked until parseDrinkInput validates them
+  parse: (userInput: string, settings: Settings) => Promise<unknown[]>;
+}
+
+export interface ParseResult {
+  drinks: ParsedDrink[];
+  // Items the provider returned that failed validation
+  discarded: number;
+}
+
+export const PARSER_PROVIDERS: DrinkParserProvider[] = [
+  {
+    id: 'offline',
+    label: 'Offline',
+    description: 'Built-in rules. Works without a connection and nothing leaves your phone.',
+    remote: false,
+    parse: async (userInput) => parseDrinkDescription(userInput),
+  },
+  {
+    id: 'gemini',
+    label: 'Gemini',
+    description: 'Google Gemini. Needs an API key.',
+    remote: true,
+    parse: (userInput, settings) => parseWithGemini(userInput, settings.parserEndpoints.gemini),
+  },
+  {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    description: 'OpenAI, or a self-hosted model (Ollama, LM Studio, llama.cpp…) at any base URL.',
+    remote: true,
+    parse: (userInput, settings) => parseWithOpenAi(userInput, settings.parserEndpoints.openai),
+  },
+];
+
+export const getParserProvider = (id: ParserProviderId): DrinkParserProvider => {
+  return PARSER_PROVIDERS.find(p => p.id === id) ?? PARSER_PROVIDERS[0];
+};
+
+// Throws a DrinkParserError if nothing usable comes back
+export const parseDrinkInput = async (userInput: string, settings: Settings): Promise<ParseResult> => {
+  const raw = await getParserProvider(settings.parserProvider).parse(userInput, settings);
+  const drinks = raw.map(validateParsedDrink).filter((d): d is ParsedDrink => d !== null);
+
+  if (raw.length === 0) {
+    throw new DrinkParserError('nothingFound', 'No drinks found in the description');
+  }
+  if (drinks.length === 0) {
+    throw new DrinkParserError('unparseable', `All ${raw.length} parsed item(s) were invalid`);
+  }
+  return { drinks, discarded: raw.length - drinks.length };
+};
@@ -0,0 +1,332 @@
+import { Drink } from '../types';
+import { BacProfile, drinkEndTime } from './bacEngine';
+import { drinkToGrams, profileToGrams, sessionToGrams } from './migrations';
+import { sanitizeProfile } from './profile';
+import { createSession, Session } from './sessions';
+import { StandardDrinkUnit, toStandardDrinks } from './standardDrinks';
+import { validateDrink, validateSession } from './validation';
+
+// Getting data in and out of the app: CSV for spreadsheets, and a JSON
+// backup that round-trips everything (including sessions and profile).
+
+export const CSV_COLUMNS = ['timestamp', 'name', 'volumeMl', 'abv', 'standardDrinks'] as const;
+
+const BACKUP_FORMAT = 'standard-drinker-backup';
+// Version 1 backups counted Australian standard drinks instead of grams
+const BACKUP_VERSION = 2;
+
+// Drinks more than this far apart are split into separate sessions on import
+const SESSION_GAP_MS = 6 * 60 * 60 * 1000;
+
+export interface RejectedLine {
+  line: number;
+  content: string;
+  reason: string;
+}
+
+export interface ImportPayload {
+  drinks: Drink[];
+  sessions: Session[];
+  rejected: RejectedLine[];
+  // Only a backup carries one
+  profile?: BacProfile;
+}
+
+export interface ImportReport {
+  added: number;
+  duplicates: number;
+  rejected: RejectedLine[];
+  profileRestored: boolean;
+}
+
+const escapeCsv = (value: string): string => {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// standardDrinks is written in the user's chosen unit; on import it's
+// ignored and recalculated from volume and ABV. volumeMl is what was
+// actually drunk, so partly finished drinks survive the round trip.
+export const drinksToCsv = (drinks: Drink[], unit: StandardDrinkUnit): string => {
+  const rows = [...drinks]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(d => [
+      new Date(d.timestamp).toISOString(),
+      escapeCsv(d.name),
+      Math.round(d.volumeMl * (d.portion ?? 1)).toString(),
+      d.abv.toString(),
+      toStandardDrinks(d.alcoholGrams, unit).toFixed(2),
+    ].join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+export const buildBackup = (drinks: Drink[], sessions: Session[], profile: BacProfile): string => {
+  return JSON.stringify({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile,
+    drinks,
+    sessions,
+  }, null, 2);
+};
+
+// Split CSV text into records. A quoted field can run over several lines,
+// so each record keeps the line it started on for reporting.
+const splitCsvRecords = (text: string): { line: number; content: string }[] => {
+  const records: { line: number; content: string }[] = [];
+  let content = '';
+  let line = 1;
+  let startLine = 1;
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    // A doubled quote toggles twice, which leaves it inside the field
+    if (char === '"') inQuotes = !inQuotes;
+
+    const isLineEnd = char === '\n' || (char === '\r' && text[i + 1] === '\n');
+    if (isLineEnd && !inQuotes) {
+      if (char === '\r') i++;
+      records.push({ line: startLine, content });
+      content = '';
+      line++;
+      startLine = line;
+      continue;
+    }
+
+    if (char === '\n') line++;
+    content += char;
+  }
+  records.push({ line: startLine, content });
+
+  return records;
+};
+
+// Split one CSV record into fields, honouring quoted values
+const splitCsvFields = (record: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < record.length; i++) {
+    const char = record[i];
+    if (inQuotes) {
+      if (char === '"' && record[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+
+  return fields.map(f => f.trim());
+};
+
+const parseTimestamp = (value: string): number => {
+  if (/^\d+$/.test(value)) return Number(value);
+  return Date.parse(value);
+};
+
+export const parseCsv = (text: string): ImportPayload => {
+  const [headerRecord, ...records] = splitCsvRecords(text);
+  const drinks: Drink[] = [];
+  const rejected: RejectedLine[] = [];
+
+  // Map columns by header name so column order doesn't matter
+  const header = splitCsvFields(headerRecord.content).map(h => h.toLowerCase());
+  const columnIndex = (name: string) => header.indexOf(name.toLowerCase());
+  const missing = CSV_COLUMNS
+    .filter(c => c !== 'standardDrinks')
+    .filter(c => columnIndex(c) === -1);
+
+  if (missing.length > 0) {
+    return {
+      drinks: [],
+      sessions: [],
+      rejected: [{ line: 1, content: headerRecord.content, reason: `Missing column(s): ${missing.join(', ')}` }],
+    };
+  }
+
+  records.forEach(({ line, content }) => {
+    if (!content.trim()) return;
+    const fields = splitCsvFields(content);
+    const field = (name: string) => fields[columnIndex(name)] ?? '';
+
+    const timestamp = parseTimestamp(field('timestamp'));
+    const drink = validateDrink({
+      id: `${timestamp}-${line}-import`,
+      name: field('name'),
+      volumeMl: Number(field('volumeMl')),
+      abv: Number(field('abv')),
+      timestamp,
+    });
+
+    if (!drink) {
+      const reason = Number.isNaN(timestamp) ? 'Unreadable timestamp' : 'Invalid name, volume or ABV';
+      rejected.push({ line, content, reason });
+    } else {
+      drinks.push(drink);
+    }
+  });
+
+  return { drinks, sessions: [], rejected };
+};
+
+const notJson = (): ImportPayload => ({
+  drinks: [],
+  sessions: [],
+  rejected: [{ line: 1, content: '', reason: 'Not valid JSON' }],
+});
+
+const readDrinks = (list: unknown[], isLegacy: boolean): { drinks: Drink[]; rejected: RejectedLine[] } => {
+  const drinks: Drink[] = [];
+  const rejected: RejectedLine[] = [];
+
+  list.forEach((raw, index) => {
+    const drink = validateDrink(isLegacy ? drinkToGrams(raw) : raw);
+    if (drink) {
+      drinks.push(drink);
+    } else {
+      rejected.push({ line: index + 1, content: JSON.stringify(raw), reason: 'Invalid drink' });
+    }
+  });
+
+  return { drinks, rejected };
+};
+
+// A bare JSON array of drinks, such as the "drinks" list from a backup
+export const parseDrinkList = (text: string): ImportPayload => {
+  let list: unknown;
+  try {
+    list = JSON.parse(text);
+  } catch {
+    return notJson();
+  }
+
+  if (!Array.isArray(list)) {
+    return { drinks: [], sessions: [], rejected: [{ line: 1, content: '', reason: 'Not a list of drinks' }] };
+  }
+
+  return { ...readDrinks(list, false), sessions: [] };
+};
+
+export const parseBackup = (text: string): ImportPayload => {
+  let backup: Record<string, unknown>;
+  try {
+    backup = JSON.parse(text);
+  } catch {
+    return notJson();
+  }
+
+  if (!backup || backup.format !== BACKUP_FORMAT) {
+    return { drinks: [], sessions: [], rejected: [{ line: 1, content: '', reason: 'Not a Standard Drinker backup' }] };
+  }
+
+  const isLegacy = backup.version === 1;
+  const { drinks, rejected } = readDrinks(Array.isArray(backup.drinks) ? backup.drinks : [], isLegacy);
+  const sessions: Session[] = [];
+
+  (Array.isArray(backup.sessions) ? backup.sessions : []).forEach((raw, index) => {
+    const session = validateSession(isLegacy ? sessionToGrams(raw) : raw);
+    if (session) {
+      sessions.push(session);
+    } else {
+      rejected.push({ line: index + 1, content: JSON.stringify(raw).slice(0, 120), reason: 'Invalid session' });
+    }
+  });
+
+  const payload: ImportPayload = { drinks, sessions, rejected };
+  if (backup.profile && typeof backup.profile === 'object') {
+    payload.profile = sanitizeProfile(isLegacy ? profileToGrams(backup.profile) : backup.profile);
+  }
+  return payload;
+};
+
+// Pick whichever parser fits the pasted text
+export const parseImport = (text: string): ImportPayload => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) return parseBackup(text);
+  if (trimmed.startsWith('[')) return parseDrinkList(text);
+  return parseCsv(text);
+};
+
+// Loose drinks (from a CSV) are grouped into sessions wherever there's a
+// long enough gap between them
+export const groupIntoSessions = (drinks: Drink[], profile: BacProfile): Session[] => {
+  const sorted = [...drinks].sort((a, b) => a.timestamp - b.timestamp);
+  const groups: Drink[][] = [];
+
+  for (const drink of sorted) {
+    const current = groups[groups.length - 1];
+    if (current && drink.timestamp - current[current.length - 1].timestamp < SESSION_GAP_MS) {
+      current.push(drink);
+    } else {
+      groups.push([drink]);
+    }
+  }
+
+  return groups.map(group => createSession(group, profile, group[group.length - 1].timestamp));
+};
+
+// What makes two drinks the same drink. Volume is what was actually drunk,
+// which is what a CSV carries, so partly finished drinks still match.
+const drinkKey = (drink: Drink): string =>
+  [drink.timestamp, drink.name, Math.round(drink.volumeMl * (drink.portion ?? 1)), drink.abv].join('|');
+
+// Add imported sessions to the history, skipping any drink we already have
+// (same id, or the same name, volume and ABV logged at the same moment).
+// Drinks are only checked against what was stored before the import: a
+// round of identical drinks added together is several drinks, not one.
+// A session that gains drinks is stretched to cover them.
+export const mergeSessions = (
+  existing: Session[],
+  currentDrinks: Drink[],
+  incoming: Session[]
+): { sessions: Session[]; added: number; duplicates: number } => {
+  const known = [...currentDrinks, ...existing.flatMap(s => s.drinks)];
+  const knownIds = new Set(known.map(d => d.id));
+  const knownKeys = new Set(known.map(drinkKey));
+  const sessions = [...existing];
+  let added = 0;
+  let duplicates = 0;
+
+  for (const session of incoming) {
+    const fresh = session.drinks.filter(d => {
+      if (knownIds.has(d.id) || knownKeys.has(drinkKey(d))) {
+        duplicates++;
+        return false;
+      }
+      return true;
+    });
+    if (fresh.length === 0) continue;
+
+    added += fresh.length;
+    const match = sessions.findIndex(s => s.id === session.id);
+    if (match >= 0) {
+      const merged = sessions[match];
+      sessions[match] = {
+        ...merged,
+        startTime: Math.min(merged.startTime, ...fresh.map(d => d.timestamp)),
+        endTime: Math.max(merged.endTime, ...fresh.map(drinkEndTime)),
+        drinks: [...merged.drinks, ...fresh],
+      };
+    } else {
+      sessions.push({ ...session, drinks: fresh });
+    }
+  }
+
+  sessions.sort((a, b) => b.startTime - a.startTime);
+  return { sessions, added, duplicates };
+};
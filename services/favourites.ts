@@ -0,0 +1,59 @@
+import { Drink } from '../types';
+import { Session } from './sessions';
+
+// Quick picks built from the user's own history: the drinks they have most
+// recently and most often logged, keyed by name, volume, ABV and how much of
+// it was drunk.
+
+export interface FavouriteDrink {
+  key: string;
+  name: string;
+  volumeMl: number;
+  abv: number;
+  portion?: number;
+  count: number;
+  lastTimestamp: number;
+}
+
+const favouriteKey = (drink: Pick<Drink, 'name' | 'volumeMl' | 'abv' | 'portion'>) =>
+  `${drink.name.trim().toLowerCase()}|${drink.volumeMl}|${drink.abv}|${drink.portion ?? 1}`;
+
+// How many of the picks are chosen for recency; the rest are the most frequent
+const RECENT_PICKS = 3;
+
+export const buildFavourites = (drinks: Drink[], sessions: Session[], limit: number = 8): FavouriteDrink[] => {
+  const byKey = new Map<string, FavouriteDrink>();
+
+  for (const drink of [...drinks, ...sessions.flatMap(s => s.drinks)]) {
+    const key = favouriteKey(drink);
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.count += 1;
+      if (drink.timestamp > existing.lastTimestamp) {
+        existing.lastTimestamp = drink.timestamp;
+        existing.name = drink.name;
+      }
+    } else {
+      byKey.set(key, {
+        key,
+        name: drink.name,
+        volumeMl: drink.volumeMl,
+        abv: drink.abv,
+        portion: drink.portion,
+        count: 1,
+        lastTimestamp: drink.timestamp,
+      });
+    }
+  }
+
+  const all = [...byKey.values()];
+  const recent = [...all]
+    .sort((a, b) => b.lastTimestamp - a.lastTimestamp)
+    .slice(0, Math.min(RECENT_PICKS, limit));
+  const frequent = all
+    .filter(f => !recent.includes(f))
+    .sort((a, b) => b.count - a.count || b.lastTimestamp - a.lastTimestamp)
+    .slice(0, limit - recent.length);
+
+  return [...recent, ...frequent];
+};
@@ -1,61 +1,43 @@
-// import { GoogleGenAI, Type } from "@google/genai";
+import { DRINK_PARSER_PROMPT, postJson, readDrinksJson, replyText } from './llmClient';
+import { ParserEndpoint } from './settings';
 
-// Helper to calculate Australian standard drinks
-// Formula: Volume (L) * ABV (%) * 0.789
-const calculateStandardDrinks = (volumeMl: number, abv: number): number => {
-  return (volumeMl / 1000) * abv * 0.789;
-};
+// The only part of the reply that's read; nothing in it is trusted
+interface GeminiReply {
+  candidates?: { content?: { parts?: { text?: unknown }[] } }[];
+}
 
-export const parseDrinkInput = async (userInput: string) => {
-    return [];
-    //   try {
-//     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-//     const response = await ai.models.generateContent({
-//       model: 'gemini-2.5-flash',
-//       contents: userInput,
-//       config: {
-//         systemInstruction: `
-//           You are an expert bartender and Australian alcohol regulations specialist.
-//           Your task is to analyze user input describing drinks and extract the estimated volume (in milliliters) and Alcohol By Volume (ABV percentage).
-          
-//           Guidelines:
-//           1. Identify common drink names and map them to typical Australian serving sizes if not specified (e.g., "Schooner" = 425ml, "Pint" = 570ml, "Pot" = 285ml, "Glass of wine" = 150ml).
-//           2. Estimate ABV based on the drink type if not specified (e.g., "Beer" ~ 4.5-5%, "Wine" ~ 12-14%, "Vodka" ~ 40%).
-//           3. Be precise with brand knowledge (e.g., "Guinness" is typically 4.2%, "VB" is 4.9%).
-//           4. Return a list of identified drinks.
-//         `,
-//         responseMimeType: 'application/json',
-//         responseSchema: {
-//           type: Type.OBJECT,
-//           properties: {
-//             drinks: {
-//               type: Type.ARRAY,
-//               items: {
-//                 type: Type.OBJECT,
-//                 properties: {
-//                   name: { type: Type.STRING, description: "A concise name of the drink" },
-//                   volumeMl: { type: Type.NUMBER, description: "Volume in milliliters" },
-//                   abv: { type: Type.NUMBER, description: "Alcohol by Volume percentage (e.g., 5.0 for 5%)" },
-//                 },
-//                 required: ["name", "volumeMl", "abv"]
-//               }
-//             }
-//           }
-//         }
-//       }
-//     });
+// Google Gemini, called through its REST API so no SDK is needed
+export const parseWithGemini = async (userInput: string, endpoint: ParserEndpoint): Promise<unknown[]> => {
+  const apiKey = endpoint.apiKey || process.env.API_KEY || '';
+  const url = `${endpoint.baseUrl.replace(/\/+$/, '')}/models/${endpoint.model}:generateContent`;
 
-//     const result = JSON.parse(response.text || '{"drinks": []}');
-    
-//     // Add calculated standard drinks to the result
-//     return result.drinks.map((d: any) => ({
-//       ...d,
-//       standardDrinks: calculateStandardDrinks(d.volumeMl, d.abv)
-//     }));
+  const response = await postJson(url, {
+    systemInstruction: { parts: [{ text: DRINK_PARSER_PROMPT }] },
+    contents: [{ role: 'user', parts: [{ text: userInput }] }],
+    generationConfig: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: 'OBJECT',
+        properties: {
+          drinks: {
+            type: 'ARRAY',
+            items: {
+              type: 'OBJECT',
+              properties: {
+                name: { type: 'STRING', description: 'A concise name of the drink' },
+                volumeMl: { type: 'NUMBER', description: 'Volume in milliliters' },
+                abv: { type: 'NUMBER', description: 'Alcohol by Volume percentage (e.g., 5.0 for 5%)' },
+                confidence: { type: 'STRING', enum: ['high', 'medium', 'low'] },
+                assumptions: { type: 'ARRAY', items: { type: 'STRING' } },
+              },
+              required: ['name', 'volumeMl', 'abv', 'confidence', 'assumptions'],
+            },
+          },
+        },
+      },
+    },
+  }, { 'x-goog-api-key': apiKey });
 
-//   } catch (error) {
-//     console.error("Gemini API Error:", error);
-//     throw new Error("Failed to interpret drink description.");
-//   }
+  const reply = response as GeminiReply | null;
+  return readDrinksJson(replyText(reply?.candidates?.[0]?.content?.parts?.[0]?.text));
 };
@@ -0,0 +1,135 @@
+import { Drink, Gender } from '../types';
+
+// Low-risk drinking guidelines by country. Like drink-driving limits they
+// vary a lot: some have a daily cap, some only a weekly one, and some differ
+// between men and women. Limits are stored in grams of alcohol so they don't
+// depend on which standard drink the user has picked.
+
+export interface GuidelineLimits {
+  // Most in any one calendar day; null when the guideline has no daily cap
+  dailyGrams: number | null;
+  // Most in any rolling seven days; null when there's no weekly cap
+  weeklyGrams: number | null;
+}
+
+export interface Guideline {
+  id: string;
+  label: string;
+  limits: Record<Gender, GuidelineLimits>;
+}
+
+const same = (limits: GuidelineLimits): Record<Gender, GuidelineLimits> => ({ male: limits, female: limits });
+
+export const CUSTOM_GUIDELINE_ID = 'custom';
+
+export const GUIDELINES: Guideline[] = [
+  // NHMRC 2020: no more than 10 standard drinks a week and 4 on any one day
+  { id: 'au', label: 'Australia (NHMRC)', limits: same({ dailyGrams: 40, weeklyGrams: 100 }) },
+  {
+    id: 'nz',
+    label: 'New Zealand',
+    limits: {
+      male: { dailyGrams: 30, weeklyGrams: 150 },
+      female: { dailyGrams: 20, weeklyGrams: 100 },
+    },
+  },
+  // UK Chief Medical Officers: 14 units a week, spread over three days or more
+  { id: 'uk', label: 'UK (CMO)', limits: same({ dailyGrams: null, weeklyGrams: 112 }) },
+  {
+    id: 'us',
+    label: 'United States',
+    limits: {
+      male: { dailyGrams: 28, weeklyGrams: null },
+      female: { dailyGrams: 14, weeklyGrams: null },
+    },
+  },
+  {
+    id: 'ie',
+    label: 'Ireland (HSE)',
+    limits: {
+      male: { dailyGrams: null, weeklyGrams: 170 },
+      female: { dailyGrams: null, weeklyGrams: 110 },
+    },
+  },
+];
+
+export const DEFAULT_GUIDELINE_ID = 'au';
+
+export const DEFAULT_CUSTOM_LIMITS: GuidelineLimits = { dailyGrams: 40, weeklyGrams: 100 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isGuidelineId = (value: unknown): value is string =>
+  value === CUSTOM_GUIDELINE_ID || GUIDELINES.some(g => g.id === value);
+
+export const guidelineLabel = (id: string): string =>
+  id === CUSTOM_GUIDELINE_ID ? 'Custom' : GUIDELINES.find(g => g.id === id)?.label ?? GUIDELINES[0].label;
+
+// The limits that apply to this drinker
+export const guidelineLimits = (id: string, gender: Gender, custom: GuidelineLimits): GuidelineLimits => {
+  if (id === CUSTOM_GUIDELINE_ID) return custom;
+  return (GUIDELINES.find(g => g.id === id) ?? GUIDELINES[0]).limits[gender];
+};
+
+// Local midnight at the start of the day containing `time`
+export const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Stepping the date rather than the milliseconds keeps daylight saving
+// changes from shifting the boundaries
+export const addDays = (dayStart: number, days: number): number => {
+  const date = new Date(dayStart);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+// A drink counts towards the day (and week) it was started in
+const gramsBetween = (drinks: Drink[], from: number, to: number): number =>
+  drinks
+    .filter(d => d.timestamp >= from && d.timestamp < to)
+    .reduce((sum, d) => sum + d.alcoholGrams, 0);
+
+export interface DayTotal {
+  dayStart: number;
+  grams: number;
+}
+
+// Calendar-day totals for the last `days` days, oldest first, ending today
+export const dailyTotals = (drinks: Drink[], days: number, now: number): DayTotal[] => {
+  const totals: DayTotal[] = [];
+  const today = startOfDay(now);
+
+  for (let i = days - 1; i >= 0; i--) {
+    const dayStart = addDays(today, -i);
+    totals.push({ dayStart, grams: gramsBetween(drinks, dayStart, addDays(dayStart, 1)) });
+  }
+
+  return totals;
+};
+
+export interface GuidelineProgress {
+  todayGrams: number;
+  // The seven days up to now, plus anything logged for later today
+  weekGrams: number;
+  limits: GuidelineLimits;
+  overDaily: boolean;
+  overWeekly: boolean;
+}
+
+export const guidelineProgress = (drinks: Drink[], limits: GuidelineLimits, now: number): GuidelineProgress => {
+  const today = startOfDay(now);
+  const tomorrow = addDays(today, 1);
+  const todayGrams = gramsBetween(drinks, today, tomorrow);
+  const weekGrams = gramsBetween(drinks, now - 7 * DAY_MS, tomorrow);
+
+  return {
+    todayGrams,
+    weekGrams,
+    limits,
+    overDaily: limits.dailyGrams !== null && todayGrams > limits.dailyGrams,
+    overWeekly: limits.weeklyGrams !== null && weekGrams > limits.weeklyGrams,
+  };
+};
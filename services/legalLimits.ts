@@ -0,0 +1,140 @@
+// Drink-driving limits by jurisdiction and licence class. Limits are stored
+// as BAC % (grams per 100 ml of blood), which is what the engine works in,
+// and converted to the local unit only for display.
+
+export type BacUnit = 'percent' | 'gPerL' | 'breathMgPerL';
+
+export interface LicenceClass {
+  id: string;
+  label: string;
+  limit: number;
+}
+
+export interface Jurisdiction {
+  id: string;
+  label: string;
+  // How BAC is usually quoted there
+  bacUnit: BacUnit;
+  // Blood:breath ratio the law uses to pair its blood and breath limits;
+  // defaults to the common 2100:1
+  breathRatio?: number;
+  licences: LicenceClass[];
+}
+
+export const JURISDICTIONS: Jurisdiction[] = [
+  {
+    id: 'au',
+    label: 'Australia',
+    bacUnit: 'percent',
+    licences: [
+      { id: 'full', label: 'Full Licence', limit: 0.05 },
+      { id: 'provisional', label: 'Learner / Provisional', limit: 0 },
+      { id: 'heavy', label: 'Heavy Vehicle / Commercial', limit: 0.02 },
+    ],
+  },
+  {
+    id: 'nz',
+    label: 'New Zealand',
+    bacUnit: 'breathMgPerL',
+    // 50 mg/100 ml of blood is 250 µg/L of breath
+    breathRatio: 2000,
+    licences: [
+      { id: 'full', label: 'Adult (20+)', limit: 0.05 },
+      { id: 'under20', label: 'Under 20', limit: 0 },
+    ],
+  },
+  {
+    id: 'uk',
+    label: 'England & Wales',
+    bacUnit: 'breathMgPerL',
+    // 80 mg/100 ml of blood is 35 µg/100 ml of breath
+    breathRatio: 2285.7,
+    licences: [
+      { id: 'full', label: 'All Drivers', limit: 0.08 },
+    ],
+  },
+  {
+    id: 'scotland',
+    label: 'Scotland',
+    bacUnit: 'breathMgPerL',
+    // 50 mg/100 ml of blood is 22 µg/100 ml of breath
+    breathRatio: 2272.7,
+    licences: [
+      { id: 'full', label: 'All Drivers', limit: 0.05 },
+    ],
+  },
+  {
+    id: 'us',
+    label: 'United States',
+    bacUnit: 'percent',
+    licences: [
+      { id: 'full', label: 'Adult (21+)', limit: 0.08 },
+      { id: 'commercial', label: 'Commercial (CDL)', limit: 0.04 },
+      { id: 'under21', label: 'Under 21', limit: 0.02 },
+    ],
+  },
+  {
+    id: 'ca',
+    label: 'Canada',
+    bacUnit: 'percent',
+    licences: [
+      { id: 'full', label: 'Full Licence', limit: 0.08 },
+      { id: 'warn', label: 'Provincial Warn Range', limit: 0.05 },
+      { id: 'novice', label: 'Novice / Under 22', limit: 0 },
+    ],
+  },
+  {
+    id: 'eu',
+    label: 'Most of Europe',
+    bacUnit: 'gPerL',
+    licences: [
+      { id: 'full', label: 'Full Licence', limit: 0.05 },
+      { id: 'novice', label: 'Novice / Professional', limit: 0.02 },
+    ],
+  },
+];
+
+export const BAC_UNITS: { value: BacUnit; label: string }[] = [
+  { value: 'percent', label: '%' },
+  { value: 'gPerL', label: 'g/L' },
+  { value: 'breathMgPerL', label: 'mg/L breath' },
+];
+
+export const DEFAULT_JURISDICTION_ID = 'au';
+export const DEFAULT_LICENCE_ID = 'full';
+
+// Blood:breath partition ratio used to estimate breath alcohol where the
+// jurisdiction doesn't set its own
+const DEFAULT_BREATH_RATIO = 2100;
+
+export const getJurisdiction = (id: string): Jurisdiction => {
+  return JURISDICTIONS.find(j => j.id === id) ?? JURISDICTIONS[0];
+};
+
+export const getLicenceClass = (jurisdiction: Jurisdiction, licenceId: string): LicenceClass => {
+  return jurisdiction.licences.find(l => l.id === licenceId) ?? jurisdiction.licences[0];
+};
+
+export const isBacUnit = (value: unknown): value is BacUnit =>
+  BAC_UNITS.some(u => u.value === value);
+
+// Convert BAC % into the display unit
+export const convertBac = (bacPercent: number, unit: BacUnit, breathRatio = DEFAULT_BREATH_RATIO): number => {
+  switch (unit) {
+    case 'gPerL':
+      return bacPercent * 10;
+    case 'breathMgPerL':
+      return (bacPercent * 10 * 1000) / breathRatio;
+    default:
+      return bacPercent;
+  }
+};
+
+export const bacUnitLabel = (unit: BacUnit): string => {
+  return BAC_UNITS.find(u => u.value === unit)?.label ?? '%';
+};
+
+export const formatBac = (bacPercent: number, unit: BacUnit, breathRatio?: number): string => {
+  const value = convertBac(bacPercent, unit, breathRatio);
+  return unit === 'gPerL' ? value.toFixed(2) : value.toFixed(3);
+};
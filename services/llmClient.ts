@@ -0,0 +1,79 @@
+import { DrinkParserError } from './parserErrors';
+
+// Shared plumbing for the hosted drink parsers: the prompt they're all
+// given, a JSON POST with a timeout, and reading drinks back out of the
+// model's reply. Failures are raised as DrinkParserErrors, whose messages
+// never include the URL: they end up in logs, and URLs can carry keys.
+
+const REQUEST_TIMEOUT_MS = 20000;
+
+export const DRINK_PARSER_PROMPT = `
+You are an expert bartender and Australian alcohol regulations specialist.
+Your task is to analyze user input describing drinks and extract the estimated volume (in milliliters) and Alcohol By Volume (ABV percentage).
+
+Guidelines:
+1. Identify common drink names and map them to typical Australian serving sizes if not specified (e.g., "Schooner" = 425ml, "Pint" = 570ml, "Pot" = 285ml, "Glass of wine" = 150ml).
+2. Estimate ABV based on the drink type if not specified (e.g., "Beer" ~ 4.5-5%, "Wine" ~ 12-14%, "Vodka" ~ 40%).
+3. Be precise with brand knowledge (e.g., "Guinness" is typically 4.2%, "VB" is 4.9%).
+4. List each drink separately, so "2 pints" is two entries.
+5. For each drink give a confidence ("high", "medium" or "low") and list any assumptions you made, e.g. "Assumed a schooner (425ml)".
+6. Reply with JSON only, in the form {"drinks": [{"name": string, "volumeMl": number, "abv": number, "confidence": string, "assumptions": string[]}]}.
+`.trim();
+
+export const postJson = async (
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<unknown> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    clearTimeout(timeout);
+    const reason = controller.signal.aborted ? 'timed out' : String(error);
+    throw new DrinkParserError('network', `Request ${reason}`);
+  }
+
+  try {
+    if (response.status === 429) {
+      throw new DrinkParserError('quota', 'Rate limit or quota exceeded');
+    }
+    if (!response.ok) {
+      throw new DrinkParserError('network', `Request failed with status ${response.status}`);
+    }
+    return await response.json().catch(() => {
+      throw new DrinkParserError('unparseable', 'Response was not JSON');
+    });
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+// Pulls a string out of the reply, or '' if it isn't one
+export const replyText = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+// Models sometimes wrap JSON in a markdown code fence, so strip that first.
+// Items come back unchecked; validateParsedDrink does that.
+export const readDrinksJson = (text: string): unknown[] => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '');
+  let result: unknown;
+  try {
+    result = JSON.parse(json || '{"drinks": []}');
+  } catch {
+    throw new DrinkParserError('unparseable', 'Model reply was not valid JSON');
+  }
+
+  const drinks = (result as { drinks?: unknown } | null)?.drinks;
+  if (!Array.isArray(drinks)) {
+    throw new DrinkParserError('unparseable', 'Model reply had no drinks list');
+  }
+  return drinks;
+};
@@ -0,0 +1,366 @@
+import { COMMON_ABV, COMMON_SIZES, ParseConfidence, ParsedDrink } from '../types';
+import { BUNDLED_CATALOGUE } from './beverageCatalogue';
+
+// Deterministic, offline parser for descriptions like "2 schooners of VB and
+// a shot of tequila" or "half a bottle of red". It works clause by clause,
+// picking out a quantity, a serve size and a drink (or an explicit volume
+// and ABV), and falls back to typical Australian serves for anything left
+// unsaid.
+
+type DrinkKind = 'beer' | 'wine' | 'sparkling' | 'fortified' | 'spirit' | 'mixed' | 'cider' | 'premix';
+
+interface DrinkType {
+  keys: string[];
+  name: string;
+  abv: number;
+  kind: DrinkKind;
+  // Brands have a known ABV; categories use a typical one
+  brand?: boolean;
+  // What it usually comes in, when that differs by product
+  serve?: { label: string; volume: number };
+}
+
+interface Serve {
+  keys: string[];
+  label: string;
+  // Serves that only really come as beer, so "two pints" means beer
+  beerOnly?: boolean;
+  // Serves that only really come as spirits, so "a shot" means spirits
+  spiritOnly?: boolean;
+  // Volume in ml, or a volume per kind of drink for serves like "bottle"
+  volume: number | Partial<Record<DrinkKind, number>> & { default: number };
+}
+
+const abvOf = (label: string) => COMMON_ABV.find(a => a.label === label)?.value ?? 0;
+const sizeOf = (label: string) => COMMON_SIZES.find(s => s.label === label)?.volume ?? 0;
+
+const CATEGORIES: DrinkType[] = [
+  // Generic categories, matching the calculator presets. Grape varieties
+  // and named styles are in the catalogue.
+  { keys: ['light beer', 'light'], name: 'Light Beer', abv: abvOf('Light Beer'), kind: 'beer' },
+  { keys: ['mid strength', 'mid'], name: 'Mid Strength', abv: abvOf('Mid Strength'), kind: 'beer' },
+  { keys: ['full strength', 'beer', 'lager', 'ale', 'draught', 'pilsner'], name: 'Full Strength', abv: abvOf('Full Strength'), kind: 'beer' },
+  { keys: ['ipa', 'craft', 'pale ale'], name: 'IPA/Craft', abv: abvOf('IPA/Craft'), kind: 'beer' },
+  { keys: ['white wine', 'white', 'riesling'], name: 'White Wine', abv: abvOf('White Wine'), kind: 'wine' },
+  { keys: ['red wine', 'red', 'merlot', 'pinot'], name: 'Red Wine', abv: abvOf('Red Wine'), kind: 'wine' },
+  { keys: ['wine'], name: 'Wine', abv: 12.5, kind: 'wine' },
+  { keys: ['sparkling', 'bubbly', 'bubbles'], name: 'Champagne', abv: abvOf('Champagne'), kind: 'sparkling' },
+  { keys: ['fortified', 'sherry', 'muscat'], name: 'Fortified', abv: abvOf('Fortified'), kind: 'fortified' },
+  { keys: ['spirits', 'spirit', 'liquor'], name: 'Spirits', abv: abvOf('Spirits'), kind: 'spirit' },
+  { keys: ['vodka'], name: 'Vodka', abv: 40, kind: 'spirit' },
+  { keys: ['tequila'], name: 'Tequila', abv: 38, kind: 'spirit' },
+  { keys: ['whisky', 'whiskey', 'scotch', 'bourbon'], name: 'Whisky', abv: 40, kind: 'spirit' },
+  { keys: ['gin'], name: 'Gin', abv: 40, kind: 'spirit' },
+  { keys: ['rum'], name: 'Rum', abv: 37.5, kind: 'spirit' },
+  { keys: ['cider'], name: 'Cider', abv: 5, kind: 'cider' },
+  { keys: ['seltzer', 'hard seltzer'], name: 'Hard Seltzer', abv: 4.5, kind: 'premix' },
+  { keys: ['premix', 'rtd'], name: 'Premix', abv: 5, kind: 'premix' },
+  { keys: ['gin and tonic', 'g&t'], name: 'Gin & Tonic', abv: 40, kind: 'mixed' },
+  { keys: ['rum and coke', 'bundy and coke'], name: 'Rum & Coke', abv: 37, kind: 'mixed' },
+  { keys: ['vodka soda', 'vodka and soda'], name: 'Vodka Soda', abv: 40, kind: 'mixed' },
+];
+
+// Brands and products come from the bundled catalogue
+const BRANDS: DrinkType[] = BUNDLED_CATALOGUE.map(entry => ({
+  keys: [entry.name.toLowerCase(), ...entry.aliases],
+  name: entry.name,
+  abv: entry.abv,
+  kind: entry.category,
+  brand: true,
+  serve: { label: entry.serves[0].label, volume: entry.serves[0].volumeMl },
+}));
+
+const DRINK_TYPES: DrinkType[] = [...CATEGORIES, ...BRANDS];
+
+const SERVES: Serve[] = [
+  { keys: ['nip', 'shot'], label: 'Shot', spiritOnly: true, volume: sizeOf('Nip/Shot') },
+  { keys: ['double'], label: 'Double', spiritOnly: true, volume: 60 },
+  { keys: ['small wine', 'small glass'], label: 'Small Glass', volume: sizeOf('Small Wine') },
+  { keys: ['std wine', 'standard glass'], label: 'Glass', volume: sizeOf('Std Wine') },
+  { keys: ['pot', 'middy', 'handle'], label: 'Pot', beerOnly: true, volume: sizeOf('Pot/Middy') },
+  // "A six pack" is six of these
+  { keys: ['stubby', 'stubbie', 'can', 'tinnie', 'tin', 'pack'], label: 'Stubby', beerOnly: true, volume: sizeOf('Stubby/Can') },
+  { keys: ['schooner'], label: 'Schooner', beerOnly: true, volume: sizeOf('Schooner') },
+  { keys: ['pint'], label: 'Pint', beerOnly: true, volume: sizeOf('Pint') },
+  { keys: ['longneck', 'long neck'], label: 'Longneck', beerOnly: true, volume: 750 },
+  { keys: ['jug', 'pitcher'], label: 'Jug', beerOnly: true, volume: sizeOf('Jug') },
+  {
+    keys: ['bottle'],
+    label: 'Bottle',
+    volume: { default: 375, wine: 750, sparkling: 750, fortified: 750, spirit: 700, mixed: 700 },
+  },
+  {
+    keys: ['glass'],
+    label: 'Glass',
+    volume: { default: 150, beer: 285, cider: 285, fortified: 60 },
+  },
+];
+
+// What a drink comes in when the description doesn't say
+const DEFAULT_SERVE: Record<DrinkKind, { label: string; volume: number }> = {
+  beer: { label: 'Schooner', volume: sizeOf('Schooner') },
+  wine: { label: 'Glass', volume: sizeOf('Std Wine') },
+  sparkling: { label: 'Glass', volume: sizeOf('Std Wine') },
+  fortified: { label: 'Glass', volume: 60 },
+  spirit: { label: 'Shot', volume: sizeOf('Nip/Shot') },
+  // Mixers don't count, so a mixed drink is a nip of the spirit
+  mixed: { label: '', volume: sizeOf('Nip/Shot') },
+  cider: { label: 'Bottle', volume: sizeOf('Stubby/Can') },
+  premix: { label: 'Can', volume: sizeOf('Stubby/Can') },
+};
+
+// Non-alcoholic mixers. "Bourbon and coke" is one drink, not a bourbon
+// followed by a coke, so a mixer after "and" joins the spirit before it. On
+// its own a mixer isn't a drink to count.
+const MIXERS = [
+  'coke', 'cola', 'pepsi', 'soda', 'soda water', 'tonic', 'lemonade', 'sprite', 'dry', 'ginger ale',
+  'ginger beer', 'juice', 'orange juice', 'cranberry', 'red bull', 'energy drink', 'water', 'mixer',
+];
+
+// Words that mark a clause as not being alcohol at all
+const NON_ALCOHOLIC = ['alcohol free', 'non alcoholic', 'zero alcohol', 'mocktail', 'soft drink'];
+
+// Words that only say "one of", which a following quantity word overrides:
+// "a couple of" is two, "a few" three
+const ARTICLES = ['a', 'an'];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, another: 1, single: 1,
+  two: 2, couple: 2, pair: 2, three: 3, few: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, dozen: 12,
+  half: 0.5, quarter: 0.25,
+};
+
+// Fractions that can follow a whole number: "2 and a half pints"
+const FRACTION_WORDS: Record<string, number> = { half: 0.5, quarter: 0.25 };
+
+const VOLUME_UNITS: Record<string, number> = {
+  ml: 1, mls: 1, millilitres: 1, milliliters: 1,
+  cl: 10,
+  l: 1000, litre: 1000, litres: 1000, liter: 1000, liters: 1000,
+  oz: 29.57,
+};
+
+// Phrases containing "and" that name a single drink, so clause splitting
+// must leave them alone
+const COMPOUND_NAMES = DRINK_TYPES.flatMap(d => d.keys).filter(k => k.includes(' and '));
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Match a phrase as whole words, allowing a plural "s"/"es" on the end.
+// Compound names are matched in their protected "x & y" form.
+const phrasePattern = (phrase: string) =>
+  new RegExp(`(^|[^a-z0-9&])${escapeRegExp(phrase.replace(/ and /g, ' & '))}(e?s)?(?=$|[^a-z0-9&])`);
+
+const findLongest = <T extends { keys: string[] }>(clause: string, items: T[]): T | undefined => {
+  let best: { item: T; length: number } | undefined;
+  for (const item of items) {
+    for (const key of item.keys) {
+      if (phrasePattern(key).test(clause) && (!best || key.length > best.length)) {
+        best = { item, length: key.length };
+      }
+    }
+  }
+  return best?.item;
+};
+
+// A bare colour only means wine when it isn't describing a mixer: "red
+// bull", "white lemonade"
+const COLOUR_BEFORE_MIXER = new RegExp(
+  `\\b(?:red|white)\\s+(?=(?:${MIXERS.map(m => escapeRegExp(m.replace(/^(red|white) /, ''))).join('|')})s?\\b)`,
+  'g'
+);
+
+// "2 and a half" is one number, so it's joined up before clauses are split
+const NUMBER_AND_FRACTION = new RegExp(
+  `\\b(\\d+|${Object.keys(NUMBER_WORDS).filter(w => Number.isInteger(NUMBER_WORDS[w])).join('|')})\\s+and\\s+an?\\s+(half|quarter)\\b`,
+  'g'
+);
+
+const findType = (clause: string) => findLongest(clause.replace(COLOUR_BEFORE_MIXER, ''), DRINK_TYPES);
+
+const findMixer = (clause: string) =>
+  MIXERS.filter(m => phrasePattern(m).test(clause)).sort((a, b) => b.length - a.length)[0];
+
+const isMixerOnly = (clause: string) =>
+  !!findMixer(clause) && !findType(clause) && parseAbv(clause) === undefined;
+
+const isSpirit = (clause: string) =>
+  findType(clause)?.kind === 'spirit' || !!findLongest(clause, SERVES)?.spiritOnly;
+
+const splitClauses = (input: string): string[] => {
+  let text = input.toLowerCase().replace(/’/g, "'").replace(/(?<=[a-z])-(?=[a-z])/g, ' ');
+  COMPOUND_NAMES.forEach(name => {
+    text = text.split(name).join(name.replace(/ and /g, ' & '));
+  });
+  text = text.replace(NUMBER_AND_FRACTION, (_, whole: string, fraction: string) =>
+    String((/^\d+$/.test(whole) ? Number(whole) : NUMBER_WORDS[whole]) + FRACTION_WORDS[fraction]));
+
+  // Separators are kept (at odd indexes) to tell "and" from the rest
+  const parts = text.split(/(,|;|\n|\band\b|\bplus\b|\bthen\b|\bfollowed by\b)/);
+  const clauses: string[] = [];
+  for (let i = 0; i < parts.length; i += 2) {
+    const clause = parts[i].trim();
+    if (!clause) continue;
+
+    const previous = clauses[clauses.length - 1];
+    if (previous !== undefined && parts[i - 1] === 'and' && isSpirit(previous) && isMixerOnly(clause)) {
+      clauses[clauses.length - 1] = `${previous} & ${clause}`;
+    } else {
+      clauses.push(clause);
+    }
+  }
+  return clauses;
+};
+
+const parseQuantity = (clause: string): number => {
+  const multiplier = clause.match(/\b(\d+)\s*x\b|\bx\s*(\d+)\b|\b(\d+)\s*pack/);
+  if (multiplier) return Number(multiplier[1] ?? multiplier[2] ?? multiplier[3]);
+
+  // A leading number that isn't a volume or percentage
+  const leading = clause.match(/^(\d+(?:\.\d+)?)(?![\d.]|\s*(%|ml|mls|cl|l\b|litre|liter|oz))/);
+  if (leading) return Number(leading[1]);
+
+  const words = clause.split(/\s+/);
+  let quantity: number | undefined;
+  let fromArticle = false;
+  for (const word of words.slice(0, 3)) {
+    if (!(word in NUMBER_WORDS)) continue;
+    // "a couple of" – a quantity after "a" replaces it, but the "a" in
+    // "half a bottle" doesn't reset the half to one
+    if (quantity === undefined || (fromArticle && !ARTICLES.includes(word))) {
+      quantity = NUMBER_WORDS[word];
+      fromArticle = ARTICLES.includes(word);
+    }
+  }
+  return quantity ?? 1;
+};
+
+const parseAbv = (clause: string): number | undefined => {
+  const match = clause.match(/(\d+(?:\.\d+)?)\s*%/);
+  return match ? Number(match[1]) : undefined;
+};
+
+const parseVolume = (clause: string): number | undefined => {
+  const match = clause.match(/(\d+(?:\.\d+)?)\s*(ml|mls|millilitres|milliliters|cl|litres|litre|liters|liter|l|oz)\b/);
+  return match ? Number(match[1]) * VOLUME_UNITS[match[2]] : undefined;
+};
+
+// Units spelled out, so "a litre" or "half a litre" needs no digit
+const WORDED_UNITS = ['millilitres', 'milliliters', 'litres', 'litre', 'liters', 'liter'];
+
+const parseWordedVolume = (clause: string): number | undefined => {
+  const unit = WORDED_UNITS.find(u => new RegExp(`\\b${u}\\b`).test(clause));
+  return unit ? parseQuantity(clause) * VOLUME_UNITS[unit] : undefined;
+};
+
+const serveVolume = (serve: Serve, kind: DrinkKind | undefined): number => {
+  if (typeof serve.volume === 'number') return serve.volume;
+  return (kind && serve.volume[kind]) || serve.volume.default;
+};
+
+const capitalise = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const FULL_STRENGTH = DRINK_TYPES.find(d => d.name === 'Full Strength')!;
+const SPIRITS = DRINK_TYPES.find(d => d.name === 'Spirits')!;
+const PREMIX = DRINK_TYPES.find(d => d.name === 'Premix')!;
+
+const parseClause = (clause: string): ParsedDrink[] => {
+  if (NON_ALCOHOLIC.some(word => phrasePattern(word).test(clause))) return [];
+
+  const serve = findLongest(clause, SERVES);
+  const explicitAbv = parseAbv(clause);
+  // "A pint of water" or "a red bull" on its own isn't a drink to count
+  if (isMixerOnly(clause)) return [];
+  const namedType = findType(clause);
+  const mixer = findMixer(clause);
+
+  // A serve can say what the drink was when nothing else does
+  let impliedType: DrinkType | undefined;
+  if (explicitAbv === undefined && serve?.beerOnly) impliedType = FULL_STRENGTH;
+  if (explicitAbv === undefined && serve?.spiritOnly) impliedType = SPIRITS;
+  const drinkType = namedType ?? impliedType;
+  const digitVolume = parseVolume(clause);
+  const wordedVolume = digitVolume === undefined ? parseWordedVolume(clause) : undefined;
+  const explicitVolume = digitVolume ?? wordedVolume;
+
+  // A spirit with a mixer is a mixed drink: a nip of the spirit
+  let kind = drinkType?.kind;
+  if (kind === 'spirit' && mixer) kind = 'mixed';
+  // Spirits don't come in beer serves, so "a can of bourbon and coke" is a
+  // premix. Only the can really makes sense; a pot or jug of spirits is a
+  // guess either way.
+  const isPremix = (kind === 'spirit' || kind === 'mixed') && !!serve?.beerOnly && explicitVolume === undefined;
+
+  // Without either a recognised drink or an ABV there's nothing to go on
+  const abv = explicitAbv ?? (isPremix ? PREMIX.abv : drinkType?.abv);
+  if (abv === undefined) return [];
+
+  // Guesses about what the drink or serve was lower the confidence; a
+  // typical ABV for a named category is only worth mentioning
+  const assumptions: string[] = [];
+  let guesses = 0;
+  if (!namedType && drinkType) {
+    assumptions.push(`Assumed ${drinkType === FULL_STRENGTH ? 'full strength beer' : 'spirits'} (${drinkType.abv}%)`);
+    guesses++;
+  } else if (isPremix) {
+    if (explicitAbv === undefined) assumptions.push(`Assumed a premix at a typical ${abv}%`);
+    guesses += serve?.keys.includes('can') ? 1 : 2;
+  } else if (drinkType && explicitAbv === undefined && !drinkType.brand) {
+    assumptions.push(`Assumed a typical ${drinkType.abv}% for ${drinkType.name}`);
+  }
+
+  let sizeLabel: string;
+  let volume: number;
+  if (explicitVolume !== undefined) {
+    volume = explicitVolume;
+    sizeLabel = `${Math.round(volume)}ml`;
+  } else if (serve) {
+    volume = serveVolume(serve, kind);
+    sizeLabel = isPremix && serve.keys.includes('can') ? 'Can' : serve.label;
+    if (typeof serve.volume !== 'number') {
+      assumptions.push(`Assumed a ${volume} ml ${serve.label.toLowerCase()}`);
+    }
+  } else {
+    const fallback = (kind === drinkType?.kind && drinkType?.serve) || DEFAULT_SERVE[kind ?? 'beer'];
+    volume = fallback.volume;
+    sizeLabel = fallback.label;
+    assumptions.push(fallback.label
+      ? `Assumed a ${fallback.label.toLowerCase()} (${volume} ml)`
+      : `Assumed a single ${volume} ml nip`);
+    guesses++;
+  }
+
+  // A spelled-out volume has already taken the quantity into account
+  const quantity = wordedVolume === undefined ? parseQuantity(clause) : 1;
+  if (quantity <= 0 || volume <= 0) return [];
+
+  // Whole numbers log that many separate drinks, and what's left over
+  // ("2 and a half pints") scales one more
+  const count = Math.floor(quantity);
+  const fraction = Math.round((quantity - count) * 100) / 100;
+  const fractionLabel = fraction === 0.5 ? `Half ${sizeLabel.toLowerCase()}` : `${fraction} × ${sizeLabel}`;
+
+  const typeName = drinkType && kind === 'mixed' && drinkType.kind === 'spirit' && mixer
+    ? `${drinkType.name} & ${mixer.split(' ').map(capitalise).join(' ')}`
+    : drinkType?.name;
+  const nameFor = (size: string) => typeName
+    ? `${size ? `${capitalise(size)} of ` : ''}${typeName}${explicitAbv !== undefined && explicitAbv !== drinkType?.abv ? ` (${abv}%)` : ''}${isPremix ? ' (premix)' : ''}`
+    : `${capitalise(size)} (${abv}%)`;
+  const confidence: ParseConfidence = guesses === 0 ? 'high' : guesses === 1 ? 'medium' : 'low';
+  const drink = (size: string, volumeMl: number): ParsedDrink => ({
+    name: nameFor(size),
+    volumeMl,
+    abv,
+    confidence,
+    assumptions: [...assumptions],
+  });
+
+  const drinks = Array.from({ length: count }, () => drink(sizeLabel, volume));
+  if (fraction > 0) drinks.push(drink(fractionLabel, Math.round(volume * fraction)));
+  return drinks;
+};
+
+export const parseDrinkDescription = (input: string): ParsedDrink[] => {
+  return splitClauses(input).flatMap(parseClause);
+};
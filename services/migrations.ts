@@ -0,0 +1,44 @@
+// Upgrades for data written by older versions of the app. These run before
+// validation, so they only reshape what they recognise and leave anything
+// unexpected for the validators to reject.
+
+// Before grams became canonical everything was counted in Australian
+// standard drinks
+const LEGACY_STANDARD_DRINK_GRAMS = 10;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const drinkToGrams = (drink: unknown): unknown => {
+  if (!isObject(drink)) return drink;
+
+  const { standardDrinks, ...rest } = drink;
+  if (typeof standardDrinks !== 'number') return rest;
+  return { ...rest, alcoholGrams: standardDrinks * LEGACY_STANDARD_DRINK_GRAMS };
+};
+
+export const profileToGrams = (profile: unknown): unknown => {
+  if (!isObject(profile)) return profile;
+
+  const toGrams = (value: unknown) =>
+    typeof value === 'number' ? value * LEGACY_STANDARD_DRINK_GRAMS : value;
+  return {
+    ...profile,
+    firstHourBurn: toGrams(profile.firstHourBurn),
+    subsequentHourBurn: toGrams(profile.subsequentHourBurn),
+  };
+};
+
+export const sessionToGrams = (session: unknown): unknown => {
+  if (!isObject(session)) return session;
+
+  return {
+    ...session,
+    drinks: Array.isArray(session.drinks) ? session.drinks.map(drinkToGrams) : session.drinks,
+    profile: profileToGrams(session.profile),
+  };
+};
+
+export const mapList = (migrate: (item: unknown) => unknown) => (data: unknown): unknown => {
+  return Array.isArray(data) ? data.map(migrate) : data;
+};
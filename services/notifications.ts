@@ -0,0 +1,134 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { BacSimulation } from './bacEngine';
+import { BacUnit, formatBac } from './legalLimits';
+import { NotificationSettings } from './settings';
+import { StandardDrinkUnit, toStandardDrinks } from './standardDrinks';
+
+// Reminders for the moments on the graph that matter, scheduled on the device
+// itself so they arrive with the app closed. Working out what to say and when
+// is pure; only the last few functions touch the notification APIs.
+
+export type MilestoneId = 'bac-under-limit' | 'bac-sober';
+
+export interface BacMilestone {
+  id: MilestoneId;
+  time: number;
+  title: string;
+  body: string;
+}
+
+const MILESTONE_IDS: MilestoneId[] = ['bac-under-limit', 'bac-sober'];
+const CHANNEL_ID = 'milestones';
+
+// The milestones still ahead of `now` for the current session
+export const bacMilestones = (
+  simulation: BacSimulation,
+  limit: number,
+  bacUnit: BacUnit,
+  breathRatio: number | undefined,
+  prefs: NotificationSettings,
+  now: number
+): BacMilestone[] => {
+  const milestones: BacMilestone[] = [];
+
+  // With a zero limit "under the limit" and "sober" are the same moment. A
+  // projected time is only where the simulation gave up, so it's skipped.
+  if (
+    prefs.underLimit
+    && limit > 0
+    && !simulation.projected
+    && simulation.belowLimitAt !== null
+    && simulation.belowLimitAt > now
+  ) {
+    milestones.push({
+      id: 'bac-under-limit',
+      time: simulation.belowLimitAt,
+      title: `Projected under ${formatBac(limit, bacUnit, breathRatio)}`,
+      body: "Your estimated BAC should now be below your limit. It's only an estimate: if in doubt, don't drive.",
+    });
+  }
+
+  if (prefs.sober && simulation.soberAt !== null && simulation.soberAt > now) {
+    milestones.push({
+      id: 'bac-sober',
+      time: simulation.soberAt,
+      title: 'Projected alcohol-free',
+      body: 'Your estimated BAC should now be back to zero.',
+    });
+  }
+
+  return milestones;
+};
+
+// True only on the change that takes the session total to or past the cap
+export const capReached = (previousGrams: number, grams: number, capGrams: number | null): boolean =>
+  capGrams !== null && previousGrams < capGrams && grams >= capGrams;
+
+export const capMessage = (grams: number, unit: StandardDrinkUnit) => ({
+  title: "You've hit your session cap",
+  body: `That's ${toStandardDrinks(grams, unit).toFixed(1)} ${unit.shortLabel} this session.`,
+});
+
+// Scheduled notifications aren't available on web, so everything below is a
+// no-op there
+
+export const configureNotifications = async () => {
+  if (Platform.OS === 'web') return;
+
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: 'BAC milestones',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+};
+
+// Asks only if the user hasn't already answered
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (Platform.OS === 'web') return false;
+
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+// Replaces whatever was scheduled before; an empty list just cancels
+export const scheduleMilestones = async (milestones: BacMilestone[]) => {
+  if (Platform.OS === 'web') return;
+
+  await Promise.all(MILESTONE_IDS.map(id => Notifications.cancelScheduledNotificationAsync(id)));
+
+  for (const milestone of milestones) {
+    await Notifications.scheduleNotificationAsync({
+      identifier: milestone.id,
+      content: { title: milestone.title, body: milestone.body },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: milestone.time,
+        channelId: CHANNEL_ID,
+      },
+    });
+  }
+};
+
+export const notifyNow = async (title: string, body: string) => {
+  if (Platform.OS === 'web') return;
+
+  await Notifications.scheduleNotificationAsync({
+    content: { title, body },
+    trigger: Platform.OS === 'android' ? { channelId: CHANNEL_ID } : null,
+  });
+};
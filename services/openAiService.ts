@@ -0,0 +1,27 @@
+import { DRINK_PARSER_PROMPT, postJson, readDrinksJson, replyText } from './llmClient';
+import { ParserEndpoint } from './settings';
+
+// The only part of the reply that's read; nothing in it is trusted
+interface ChatCompletionReply {
+  choices?: { message?: { content?: unknown } }[];
+}
+
+// Any OpenAI-compatible chat completions endpoint: OpenAI itself, or a
+// self-hosted model behind Ollama, LM Studio, llama.cpp, vLLM and so on.
+// The API key is optional because local servers usually don't want one.
+export const parseWithOpenAi = async (userInput: string, endpoint: ParserEndpoint): Promise<unknown[]> => {
+  const url = `${endpoint.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const headers: Record<string, string> = endpoint.apiKey ? { Authorization: `Bearer ${endpoint.apiKey}` } : {};
+
+  const response = await postJson(url, {
+    model: endpoint.model,
+    temperature: 0,
+    messages: [
+      { role: 'system', content: DRINK_PARSER_PROMPT },
+      { role: 'user', content: userInput },
+    ],
+  }, headers);
+
+  const reply = response as ChatCompletionReply | null;
+  return readDrinksJson(replyText(reply?.choices?.[0]?.message?.content));
+};
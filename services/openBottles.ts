@@ -0,0 +1,29 @@
+// A bottle (or cask, or jug) that's been opened and is being poured from
+// over the night, possibly shared with other people.
+export interface OpenBottle {
+  id: string;
+  name: string;
+  abv: number;
+  // What the bottle held when it was opened
+  volumeMl: number;
+  // Everything poured so far, by anyone
+  pouredMl: number;
+  openedAt: number;
+}
+
+export const createOpenBottle = (name: string, abv: number, volumeMl: number, openedAt: number = Date.now()): OpenBottle => ({
+  id: openedAt.toString() + Math.random().toString(),
+  name: name.trim(),
+  abv,
+  volumeMl,
+  pouredMl: 0,
+  openedAt,
+});
+
+export const remainingMl = (bottle: OpenBottle): number => Math.max(0, bottle.volumeMl - bottle.pouredMl);
+
+// A pour can't take more than is left in the bottle
+export const pourSize = (bottle: OpenBottle, requestedMl: number): number =>
+  Math.max(0, Math.min(requestedMl, remainingMl(bottle)));
+
+export const pourName = (bottle: OpenBottle, volumeMl: number): string => `${bottle.name} (${volumeMl}ml pour)`;
@@ -0,0 +1,16 @@
+// Why a description couldn't be turned into drinks, so the UI can say
+// something more useful than "it failed"
+export type ParserErrorKind = 'network' | 'quota' | 'unparseable' | 'nothingFound';
+
+export class DrinkParserError extends Error {
+  kind: ParserErrorKind;
+
+  constructor(kind: ParserErrorKind, message: string) {
+    super(message);
+    this.name = 'DrinkParserError';
+    this.kind = kind;
+  }
+}
+
+export const isDrinkParserError = (error: unknown): error is DrinkParserError =>
+  error instanceof DrinkParserError;
@@ -0,0 +1,40 @@
+import { Drink, FoodState } from '../types';
+import { gramsOfAlcohol } from './standardDrinks';
+
+// "What if" drinks: a plan for the night kept apart from what's actually been
+// logged, so the graph can show where the plan would lead.
+
+export const PLAN_LIMITS = {
+  count: { min: 1, max: 20 },
+  intervalMinutes: { min: 5, max: 240 },
+};
+
+// Start times for `count` drinks, one every `intervalMinutes`
+export const planSchedule = (start: number, intervalMinutes: number, count: number): number[] => {
+  return Array.from({ length: count }, (_, i) => start + i * intervalMinutes * 60 * 1000);
+};
+
+// Stamped with the session's food setting, like drinks that are logged
+export const createPlannedDrinks = (
+  name: string,
+  volumeMl: number,
+  abv: number,
+  times: number[],
+  food: FoodState
+): Drink[] => {
+  return times.map(timestamp => ({
+    id: `plan-${timestamp}-${Math.random().toString()}`,
+    name,
+    volumeMl,
+    abv,
+    alcoholGrams: gramsOfAlcohol(volumeMl, abv),
+    timestamp,
+    food,
+  }));
+};
+
+// The first time after `from` that's a whole multiple of `stepMinutes`
+export const roundUpToStep = (from: number, stepMinutes: number): number => {
+  const stepMs = stepMinutes * 60 * 1000;
+  return Math.ceil(from / stepMs) * stepMs;
+};
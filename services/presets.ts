@@ -0,0 +1,103 @@
+import { COMMON_ABV, COMMON_SIZES } from '../types';
+
+// The quick-pick buttons in the calculator. The built-in ones come from
+// COMMON_SIZES and COMMON_ABV and can be renamed, reordered or hidden but
+// not deleted; the user can add their own alongside them.
+
+export type PresetKind = 'size' | 'abv';
+
+export interface Preset {
+  id: string;
+  label: string;
+  // Volume in ml for sizes, ABV % for alcohol content
+  value: number;
+  hidden: boolean;
+  builtIn: boolean;
+}
+
+export interface Presets {
+  size: Preset[];
+  abv: Preset[];
+}
+
+export const PRESET_LIMITS: Record<PresetKind, { min: number; max: number }> = {
+  size: { min: 1, max: 3000 },
+  abv: { min: 0.1, max: 100 },
+};
+
+const slug = (label: string) => label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const builtIn = (kind: PresetKind, label: string, value: number): Preset => ({
+  id: `${kind}-${slug(label)}`,
+  label,
+  value,
+  hidden: false,
+  builtIn: true,
+});
+
+export const DEFAULT_PRESETS: Presets = {
+  size: COMMON_SIZES.map(s => builtIn('size', s.label, s.volume)),
+  abv: COMMON_ABV.map(a => builtIn('abv', a.label, a.value)),
+};
+
+export const createPreset = (kind: PresetKind, label: string, value: number): Preset => ({
+  id: `${kind}-custom-${Date.now()}`,
+  label: label.trim(),
+  value,
+  hidden: false,
+  builtIn: false,
+});
+
+export const isValidPresetValue = (kind: PresetKind, value: number): boolean =>
+  Number.isFinite(value) && value >= PRESET_LIMITS[kind].min && value <= PRESET_LIMITS[kind].max;
+
+// Move a preset one place up (-1) or down (+1)
+export const movePreset = (presets: Preset[], id: string, direction: -1 | 1): Preset[] => {
+  const index = presets.findIndex(p => p.id === id);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= presets.length) return presets;
+
+  const moved = [...presets];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+};
+
+// The label for a value, preferring presets the user can see
+export const presetLabelFor = (presets: Preset[], value: number): string | undefined => {
+  const matches = presets.filter(p => p.value === value);
+  return (matches.find(p => !p.hidden) ?? matches[0])?.label;
+};
+
+const sanitizePresetList = (raw: unknown, kind: PresetKind, defaults: Preset[]): Preset[] => {
+  const list: Preset[] = [];
+  for (const item of Array.isArray(raw) ? raw : []) {
+    if (!item || typeof item !== 'object') continue;
+    const p = item as Record<string, unknown>;
+    if (typeof p.id !== 'string' || list.some(existing => existing.id === p.id)) continue;
+    if (typeof p.label !== 'string' || p.label.trim().length === 0) continue;
+    if (typeof p.value !== 'number' || !isValidPresetValue(kind, p.value)) continue;
+
+    const isBuiltIn = defaults.some(d => d.id === p.id);
+    list.push({
+      id: p.id,
+      label: p.label.trim(),
+      value: p.value,
+      hidden: p.hidden === true,
+      builtIn: isBuiltIn,
+    });
+  }
+
+  // Built-ins can't be deleted, so any that are missing (e.g. added in a
+  // later version) go on the end
+  const missing = defaults.filter(d => !list.some(p => p.id === d.id));
+  return [...list, ...missing];
+};
+
+export const sanitizePresets = (raw: unknown): Presets => {
+  const stored = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  return {
+    size: sanitizePresetList(stored.size, 'size', DEFAULT_PRESETS.size),
+    abv: sanitizePresetList(stored.abv, 'abv', DEFAULT_PRESETS.abv),
+  };
+};
@@ -0,0 +1,38 @@
+import { BacProfile, DEFAULT_ABSORPTION_MINUTES } from './bacEngine';
+
+export const DEFAULT_PROFILE: BacProfile = {
+  weight: 80,
+  gender: 'male',
+  // Grams of alcohol, i.e. 2 and 1 Australian standard drinks
+  firstHourBurn: 20,
+  subsequentHourBurn: 10,
+  absorptionMinutes: DEFAULT_ABSORPTION_MINUTES,
+};
+
+// Allowed ranges, shared with the settings controls
+export const PROFILE_LIMITS = {
+  weight: { min: 1, max: 400 },
+  firstHourBurn: { min: 0, max: 40 },
+  subsequentHourBurn: { min: 0, max: 30 },
+  absorptionMinutes: { min: 0, max: 120 },
+};
+
+const readNumber = (value: unknown, key: keyof typeof PROFILE_LIMITS): number => {
+  const { min, max } = PROFILE_LIMITS[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) return DEFAULT_PROFILE[key];
+  return Math.max(min, Math.min(max, value));
+};
+
+// Turn whatever was in storage into a usable profile, falling back to the
+// defaults field by field so one bad value doesn't wipe the rest.
+export const sanitizeProfile = (raw: unknown): BacProfile => {
+  const stored = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  return {
+    weight: readNumber(stored.weight, 'weight'),
+    gender: stored.gender === 'male' || stored.gender === 'female' ? stored.gender : DEFAULT_PROFILE.gender,
+    firstHourBurn: readNumber(stored.firstHourBurn, 'firstHourBurn'),
+    subsequentHourBurn: readNumber(stored.subsequentHourBurn, 'subsequentHourBurn'),
+    absorptionMinutes: readNumber(stored.absorptionMinutes, 'absorptionMinutes'),
+  };
+};
@@ -0,0 +1,83 @@
+import { gramsOfAlcohol } from './standardDrinks';
+
+// Mixed drinks built from several ingredients, each with its own volume and
+// ABV. The whole mix is logged as one drink at its effective ABV.
+
+export interface RecipeIngredient {
+  name: string;
+  volumeMl: number;
+  // 0 for mixers
+  abv: number;
+}
+
+export interface Recipe {
+  id: string;
+  name: string;
+  ingredients: RecipeIngredient[];
+  // Bundled with the app rather than saved by the user
+  builtIn?: boolean;
+}
+
+export interface MixTotals {
+  volumeMl: number;
+  // Alcohol by volume of the whole mix
+  abv: number;
+  alcoholGrams: number;
+}
+
+const ingredient = (name: string, volumeMl: number, abv: number): RecipeIngredient => ({ name, volumeMl, abv });
+
+// Quick-add buttons for the usual parts of a mixed drink
+export const INGREDIENT_TEMPLATES: RecipeIngredient[] = [
+  ingredient('Spirit', 30, 40),
+  ingredient('Liqueur', 15, 20),
+  ingredient('Wine', 150, 12.5),
+  ingredient('Mixer', 150, 0),
+];
+
+const builtIn = (id: string, name: string, ingredients: RecipeIngredient[]): Recipe => ({
+  id,
+  name,
+  ingredients,
+  builtIn: true,
+});
+
+export const STARTER_RECIPES: Recipe[] = [
+  builtIn('gin-and-tonic', 'Gin & Tonic', [
+    ingredient('Gin', 30, 37.5),
+    ingredient('Tonic', 150, 0),
+  ]),
+  builtIn('long-island-iced-tea', 'Long Island Iced Tea', [
+    ingredient('Vodka', 15, 37.5),
+    ingredient('Gin', 15, 37.5),
+    ingredient('White rum', 15, 37.5),
+    ingredient('Tequila', 15, 38),
+    ingredient('Triple sec', 15, 40),
+    ingredient('Lemon juice', 25, 0),
+    ingredient('Cola', 60, 0),
+  ]),
+  builtIn('sangria-jug', 'Sangria (jug)', [
+    ingredient('Red wine', 750, 13.5),
+    ingredient('Brandy', 60, 37),
+    ingredient('Orange juice', 250, 0),
+    ingredient('Lemonade', 500, 0),
+  ]),
+];
+
+export const mixTotals = (ingredients: RecipeIngredient[]): MixTotals => {
+  const volumeMl = ingredients.reduce((sum, i) => sum + i.volumeMl, 0);
+  const alcoholGrams = ingredients.reduce((sum, i) => sum + gramsOfAlcohol(i.volumeMl, i.abv), 0);
+  const alcoholMl = ingredients.reduce((sum, i) => sum + i.volumeMl * (i.abv / 100), 0);
+
+  return {
+    volumeMl,
+    abv: volumeMl > 0 ? (alcoholMl / volumeMl) * 100 : 0,
+    alcoholGrams,
+  };
+};
+
+export const createRecipe = (name: string, ingredients: RecipeIngredient[]): Recipe => ({
+  id: `recipe-${Date.now()}`,
+  name: name.trim(),
+  ingredients: ingredients.map(i => ({ ...i, name: i.name.trim() })),
+});
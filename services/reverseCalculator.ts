@@ -0,0 +1,118 @@
+import { Drink, FoodState } from '../types';
+import { BacOptions, BacProfile, bacAt, SOBER_BAC, simulateBac } from './bacEngine';
+
+// The graph's question turned around: rather than "when will I be under the
+// limit", how much more can be drunk and still be under it by a set time.
+// Everything is answered by running the same simulation with hypothetical
+// drinks added, so it agrees with the graph by construction.
+
+export interface ReverseQuery {
+  // When the BAC has to be (and stay) under the limit
+  targetTime: number;
+  now: number;
+  limit: number;
+  // The drink being considered
+  gramsPerDrink: number;
+  // Minutes between drinks; 0 has them all at once, now
+  spacingMinutes: number;
+  food?: FoodState;
+}
+
+export interface ReverseResult {
+  // Grams that could be had in one go right now
+  maxGramsNow: number;
+  // How many of the chosen drink fit at the chosen spacing
+  count: number;
+  // When the last of those would be had; null when none fit
+  lastDrinkAt: number | null;
+  // The latest a single one of the chosen drink could be had; null if never
+  lastCallAt: number | null;
+}
+
+// Never suggest more than this many drinks, whatever the maths says
+const MAX_COUNT = 20;
+const SEARCH_STEP_MINUTES = 5;
+const MINUTE_MS = 60 * 1000;
+
+const hypothetical = (timestamp: number, grams: number, food?: FoodState): Drink => ({
+  id: `what-if-${timestamp}`,
+  name: 'What if',
+  volumeMl: 0,
+  abv: 0,
+  alcoholGrams: grams,
+  timestamp,
+  food,
+});
+
+// Under the limit at the target time and at every point after it, so a drink
+// that's still being absorbed can't push the BAC back over later
+const staysUnderFrom = (
+  drinks: Drink[],
+  profile: BacProfile,
+  targetTime: number,
+  limit: number,
+  options: BacOptions
+): boolean => {
+  const threshold = Math.max(limit, SOBER_BAC);
+  const simulation = simulateBac(drinks, profile, { ...options, limit });
+  if (bacAt(simulation, targetTime) > threshold) return false;
+  return simulation.points.every(p => p.time < targetTime || p.bac <= threshold);
+};
+
+export const reverseCalculate = (drinks: Drink[], profile: BacProfile, query: ReverseQuery): ReverseResult => {
+  const { targetTime, now, limit, gramsPerDrink, spacingMinutes, food } = query;
+  // Long enough to see the BAC come back down after the target
+  const options: BacOptions = { stepMinutes: SEARCH_STEP_MINUTES, maxHours: 48 };
+  const fits = (extra: Drink[]) => staysUnderFrom([...drinks, ...extra], profile, targetTime, limit, options);
+
+  if (targetTime <= now || !fits([])) {
+    return { maxGramsNow: 0, count: 0, lastDrinkAt: null, lastCallAt: null };
+  }
+
+  // Grams now: binary search between nothing and far more than could ever fit
+  let low = 0;
+  let high = 500;
+  for (let i = 0; i < 20; i++) {
+    const mid = (low + high) / 2;
+    if (fits([hypothetical(now, mid, food)])) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  // Count: add drinks at the chosen spacing until one more would break it.
+  // Drinks can't be scheduled at or after the target itself.
+  let count = 0;
+  let schedule: Drink[] = [];
+  if (gramsPerDrink > 0) {
+    while (count < MAX_COUNT) {
+      const time = now + count * spacingMinutes * MINUTE_MS;
+      if (time >= targetTime) break;
+
+      const next = [...schedule, hypothetical(time, gramsPerDrink, food)];
+      if (!fits(next)) break;
+      schedule = next;
+      count++;
+    }
+  }
+
+  // Last call: the latest start, searched backwards from the target
+  let lastCallAt: number | null = null;
+  if (gramsPerDrink > 0) {
+    const stepMs = SEARCH_STEP_MINUTES * MINUTE_MS;
+    for (let time = targetTime - stepMs; time >= now; time -= stepMs) {
+      if (fits([hypothetical(time, gramsPerDrink, food)])) {
+        lastCallAt = time;
+        break;
+      }
+    }
+  }
+
+  return {
+    maxGramsNow: low,
+    count,
+    lastDrinkAt: count > 0 ? schedule[schedule.length - 1].timestamp : null,
+    lastCallAt,
+  };
+};
@@ -0,0 +1,48 @@
+import { Drink } from '../types';
+import { BacProfile, simulateBac } from './bacEngine';
+
+// A finished night out, archived with the profile that was in use at the time
+// so its graph can be redrawn exactly as it was seen.
+export interface Session {
+  id: string;
+  startTime: number;
+  endTime: number;
+  drinks: Drink[];
+  profile: BacProfile;
+}
+
+export interface SessionSummary {
+  totalGrams: number;
+  peakBac: number;
+  durationMs: number;
+}
+
+export const createSession = (drinks: Drink[], profile: BacProfile, endTime: number = Date.now()): Session => {
+  const startTime = Math.min(...drinks.map(d => d.timestamp));
+
+  return {
+    id: startTime.toString() + Math.random().toString(),
+    startTime,
+    endTime: Math.max(startTime, endTime),
+    drinks,
+    profile,
+  };
+};
+
+export const summariseSession = (session: Session): SessionSummary => {
+  const simulation = simulateBac(session.drinks, session.profile);
+
+  return {
+    totalGrams: session.drinks.reduce((sum, d) => sum + d.alcoholGrams, 0),
+    peakBac: simulation.peak?.bac ?? 0,
+    durationMs: session.endTime - session.startTime,
+  };
+};
+
+export const formatDuration = (durationMs: number): string => {
+  const validDiff = Math.max(0, durationMs);
+  const hours = Math.floor(validDiff / (1000 * 60 * 60));
+  const mins = Math.floor((validDiff % (1000 * 60 * 60)) / (1000 * 60));
+
+  return `${hours}h ${mins}m`;
+};
@@ -0,0 +1,153 @@
+import { DEFAULT_ALCOHOL_FREE_GOAL, MAX_ALCOHOL_FREE_GOAL } from './alcoholFree';
+import { DEFAULT_CUSTOM_LIMITS, DEFAULT_GUIDELINE_ID, GuidelineLimits, isGuidelineId } from './guidelines';
+import {
+  BacUnit,
+  DEFAULT_JURISDICTION_ID,
+  DEFAULT_LICENCE_ID,
+  getJurisdiction,
+  isBacUnit,
+  JURISDICTIONS,
+} from './legalLimits';
+import { DEFAULT_UNIT_ID, isStandardDrinkUnitId, StandardDrinkUnitId } from './standardDrinks';
+
+export type ParserProviderId = 'offline' | 'gemini' | 'openai';
+export type RemoteProviderId = Exclude<ParserProviderId, 'offline'>;
+
+// Where a hosted drink parser lives and how to talk to it
+export interface ParserEndpoint {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+// Which on-device reminders to schedule. Nothing is sent anywhere.
+export interface NotificationSettings {
+  enabled: boolean;
+  // Projected to drop under the driving limit
+  underLimit: boolean;
+  // Projected to be back to no alcohol at all
+  sober: boolean;
+  // Grams of alcohol to stop at this session; null for no cap
+  sessionCapGrams: number | null;
+}
+
+// App-wide preferences that aren't part of the drinker's physiology
+export interface Settings {
+  unitId: StandardDrinkUnitId;
+  jurisdictionId: string;
+  licenceId: string;
+  bacUnit: BacUnit;
+  // Which parser turns free-text descriptions into drinks
+  parserProvider: ParserProviderId;
+  parserEndpoints: Record<RemoteProviderId, ParserEndpoint>;
+  notifications: NotificationSettings;
+  // Low-risk drinking guideline to track against
+  guidelineId: string;
+  // Used when guidelineId is the custom one
+  customGuideline: GuidelineLimits;
+  // Alcohol-free days to aim for each week
+  alcoholFreeGoal: number;
+}
+
+const PARSER_PROVIDER_IDS: ParserProviderId[] = ['offline', 'gemini', 'openai'];
+
+export const DEFAULT_SETTINGS: Settings = {
+  unitId: DEFAULT_UNIT_ID,
+  jurisdictionId: DEFAULT_JURISDICTION_ID,
+  licenceId: DEFAULT_LICENCE_ID,
+  bacUnit: 'percent',
+  parserProvider: 'offline',
+  parserEndpoints: {
+    gemini: {
+      baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+      apiKey: '',
+      model: 'gemini-2.5-flash',
+    },
+    openai: {
+      baseUrl: 'https://api.openai.com/v1',
+      apiKey: '',
+      model: 'gpt-4o-mini',
+    },
+  },
+  notifications: {
+    enabled: false,
+    underLimit: true,
+    sober: true,
+    sessionCapGrams: null,
+  },
+  guidelineId: DEFAULT_GUIDELINE_ID,
+  customGuideline: DEFAULT_CUSTOM_LIMITS,
+  alcoholFreeGoal: DEFAULT_ALCOHOL_FREE_GOAL,
+};
+
+const sanitizeEndpoint = (raw: unknown, fallback: ParserEndpoint): ParserEndpoint => {
+  const stored = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const text = (value: unknown, otherwise: string) =>
+    typeof value === 'string' ? value.trim() : otherwise;
+
+  return {
+    baseUrl: text(stored.baseUrl, '') || fallback.baseUrl,
+    apiKey: text(stored.apiKey, fallback.apiKey),
+    model: text(stored.model, '') || fallback.model,
+  };
+};
+
+const sanitizeNotifications = (raw: unknown): NotificationSettings => {
+  const stored = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const fallback = DEFAULT_SETTINGS.notifications;
+  const flag = (value: unknown, otherwise: boolean) => (typeof value === 'boolean' ? value : otherwise);
+  const cap = stored.sessionCapGrams;
+
+  return {
+    enabled: flag(stored.enabled, fallback.enabled),
+    underLimit: flag(stored.underLimit, fallback.underLimit),
+    sober: flag(stored.sober, fallback.sober),
+    sessionCapGrams: typeof cap === 'number' && Number.isFinite(cap) && cap > 0 ? cap : null,
+  };
+};
+
+const sanitizeGuideline = (raw: unknown): GuidelineLimits => {
+  const stored = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const grams = (value: unknown, otherwise: number | null) => {
+    if (value === null) return null;
+    return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : otherwise;
+  };
+
+  return {
+    dailyGrams: grams(stored.dailyGrams, DEFAULT_CUSTOM_LIMITS.dailyGrams),
+    weeklyGrams: grams(stored.weeklyGrams, DEFAULT_CUSTOM_LIMITS.weeklyGrams),
+  };
+};
+
+// Same approach as the profile: keep every valid field, default the rest
+export const sanitizeSettings = (raw: unknown): Settings => {
+  const stored = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  const jurisdiction = JURISDICTIONS.find(j => j.id === stored.jurisdictionId)
+    ?? getJurisdiction(DEFAULT_SETTINGS.jurisdictionId);
+  const licence = jurisdiction.licences.find(l => l.id === stored.licenceId) ?? jurisdiction.licences[0];
+  const endpoints = (stored.parserEndpoints && typeof stored.parserEndpoints === 'object'
+    ? stored.parserEndpoints
+    : {}) as Record<string, unknown>;
+  const goal = stored.alcoholFreeGoal;
+
+  return {
+    unitId: isStandardDrinkUnitId(stored.unitId) ? stored.unitId : DEFAULT_SETTINGS.unitId,
+    jurisdictionId: jurisdiction.id,
+    licenceId: licence.id,
+    bacUnit: isBacUnit(stored.bacUnit) ? stored.bacUnit : jurisdiction.bacUnit,
+    parserProvider: PARSER_PROVIDER_IDS.includes(stored.parserProvider as ParserProviderId)
+      ? stored.parserProvider as ParserProviderId
+      : DEFAULT_SETTINGS.parserProvider,
+    parserEndpoints: {
+      gemini: sanitizeEndpoint(endpoints.gemini, DEFAULT_SETTINGS.parserEndpoints.gemini),
+      openai: sanitizeEndpoint(endpoints.openai, DEFAULT_SETTINGS.parserEndpoints.openai),
+    },
+    notifications: sanitizeNotifications(stored.notifications),
+    guidelineId: isGuidelineId(stored.guidelineId) ? stored.guidelineId : DEFAULT_SETTINGS.guidelineId,
+    customGuideline: sanitizeGuideline(stored.customGuideline),
+    alcoholFreeGoal: typeof goal === 'number' && Number.isInteger(goal) && goal >= 0 && goal <= MAX_ALCOHOL_FREE_GOAL
+      ? goal
+      : DEFAULT_SETTINGS.alcoholFreeGoal,
+  };
+};
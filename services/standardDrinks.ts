@@ -0,0 +1,49 @@
+// Standard drink definitions differ between countries. Drinks are stored as
+// grams of pure alcohol and only converted into a "standard drink" count
+// for display, using whichever definition the user has picked.
+
+export type StandardDrinkUnitId = 'au' | 'nz' | 'us' | 'uk' | 'ca' | 'ie' | 'jp' | 'who';
+
+export interface StandardDrinkUnit {
+  id: StandardDrinkUnitId;
+  label: string;
+  // Short name shown next to totals, e.g. "SD" or "units"
+  shortLabel: string;
+  grams: number;
+}
+
+// Density of ethanol in g/ml
+export const ETHANOL_DENSITY = 0.789;
+
+export const STANDARD_DRINK_UNITS: StandardDrinkUnit[] = [
+  { id: 'au', label: 'Australia (10 g)', shortLabel: 'SD', grams: 10 },
+  { id: 'nz', label: 'New Zealand (10 g)', shortLabel: 'SD', grams: 10 },
+  { id: 'us', label: 'United States (14 g)', shortLabel: 'drinks', grams: 14 },
+  { id: 'uk', label: 'UK Units (8 g)', shortLabel: 'units', grams: 8 },
+  { id: 'ca', label: 'Canada (13.45 g)', shortLabel: 'drinks', grams: 13.45 },
+  { id: 'ie', label: 'Ireland (10 g)', shortLabel: 'SD', grams: 10 },
+  { id: 'jp', label: 'Japan (20 g)', shortLabel: 'units', grams: 20 },
+  { id: 'who', label: 'WHO (10 g)', shortLabel: 'SD', grams: 10 },
+];
+
+export const DEFAULT_UNIT_ID: StandardDrinkUnitId = 'au';
+
+export const isStandardDrinkUnitId = (value: unknown): value is StandardDrinkUnitId =>
+  STANDARD_DRINK_UNITS.some(u => u.id === value);
+
+export const getStandardDrinkUnit = (id: StandardDrinkUnitId): StandardDrinkUnit => {
+  return STANDARD_DRINK_UNITS.find(u => u.id === id) ?? STANDARD_DRINK_UNITS[0];
+};
+
+// Grams of pure alcohol: Volume (ml) * ABV (%) / 100 * 0.789
+export const gramsOfAlcohol = (volumeMl: number, abv: number): number => {
+  return volumeMl * (abv / 100) * ETHANOL_DENSITY;
+};
+
+export const toStandardDrinks = (grams: number, unit: StandardDrinkUnit): number => {
+  return grams / unit.grams;
+};
+
+export const fromStandardDrinks = (standardDrinks: number, unit: StandardDrinkUnit): number => {
+  return standardDrinks * unit.grams;
+};
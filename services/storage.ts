@@ -0,0 +1,136 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Everything the app persists goes through here. Values are wrapped in a
+// versioned envelope so the shape of stored data can change over time:
+// on load, data is upgraded through each migration in turn and then
+// validated. Anything that can't be read is moved aside to a quarantine key
+// instead of crashing the app or being silently thrown away.
+
+interface StorageEnvelope {
+  version: number;
+  savedAt: number;
+  data: unknown;
+}
+
+// Upgrades data from one version to the next
+export type Migration = (data: unknown) => unknown;
+
+export interface ValidationResult<T> {
+  value: T;
+  // Individual records that were dropped, kept for quarantine
+  rejected: unknown[];
+}
+
+export interface StoredValue<T> {
+  key: string;
+  // migrations[n] upgrades data saved at version n to version n + 1, so the
+  // current version is migrations.length. Data saved before envelopes
+  // existed is treated as version 0.
+  migrations: Migration[];
+  // Check data at the current version. Return null to reject it entirely.
+  validate: (data: unknown) => ValidationResult<T> | null;
+  fallback: T;
+}
+
+const QUARANTINE_PREFIX = '@standard_drinker_quarantine';
+
+export const storageVersion = <T>(store: StoredValue<T>): number => store.migrations.length;
+
+const isEnvelope = (value: unknown): value is StorageEnvelope => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const envelope = value as Record<string, unknown>;
+  return Number.isInteger(envelope.version) && 'data' in envelope;
+};
+
+const quarantine = async (key: string, reason: string, payload: unknown) => {
+  const quarantineKey = `${QUARANTINE_PREFIX}:${key}:${Date.now()}`;
+  console.warn(`Quarantining stored data for ${key}: ${reason}`);
+
+  try {
+    await AsyncStorage.setItem(
+      quarantineKey,
+      JSON.stringify({ key, reason, quarantinedAt: Date.now(), payload })
+    );
+  } catch (error) {
+    console.error('Failed to quarantine stored data:', error);
+  }
+};
+
+export const loadStored = async <T>(store: StoredValue<T>): Promise<T> => {
+  const raw = await AsyncStorage.getItem(store.key);
+  if (raw === null) return store.fallback;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    await quarantine(store.key, 'corrupt JSON', raw);
+    await AsyncStorage.removeItem(store.key);
+    return store.fallback;
+  }
+
+  const envelope: StorageEnvelope = isEnvelope(parsed)
+    ? parsed
+    : { version: 0, savedAt: 0, data: parsed };
+  const currentVersion = storageVersion(store);
+
+  if (envelope.version > currentVersion) {
+    // Written by a newer build of the app; keep it somewhere safe rather
+    // than overwriting it with data we don't understand.
+    await quarantine(store.key, `unknown version ${envelope.version}`, raw);
+    return store.fallback;
+  }
+
+  let data = envelope.data;
+  try {
+    for (let version = envelope.version; version < currentVersion; version++) {
+      data = store.migrations[version](data);
+    }
+  } catch (error) {
+    await quarantine(store.key, `migration from version ${envelope.version} failed: ${error}`, raw);
+    return store.fallback;
+  }
+
+  const result = store.validate(data);
+  if (!result) {
+    await quarantine(store.key, 'failed validation', raw);
+    return store.fallback;
+  }
+
+  if (result.rejected.length > 0) {
+    await quarantine(store.key, `${result.rejected.length} invalid record(s)`, result.rejected);
+  }
+
+  return result.value;
+};
+
+export const saveStored = async <T>(store: StoredValue<T>, value: T): Promise<void> => {
+  const envelope: StorageEnvelope = {
+    version: storageVersion(store),
+    savedAt: Date.now(),
+    data: value,
+  };
+  await AsyncStorage.setItem(store.key, JSON.stringify(envelope));
+};
+
+// Validate each item of a list on its own so one bad record doesn't take
+// the rest down with it
+export const validateList = <T>(
+  data: unknown,
+  validateItem: (item: unknown) => T | null
+): ValidationResult<T[]> | null => {
+  if (!Array.isArray(data)) return null;
+
+  const value: T[] = [];
+  const rejected: unknown[] = [];
+  for (const item of data) {
+    const valid = validateItem(item);
+    if (valid) {
+      value.push(valid);
+    } else {
+      rejected.push(item);
+    }
+  }
+
+  return { value, rejected };
+};
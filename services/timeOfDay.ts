@@ -0,0 +1,69 @@
+// Clock times typed as text, used wherever a drink's time can be edited.
+// A time means the most recent time it was that o'clock.
+
+export interface TimeRange {
+  timestamp: number;
+  endTime?: number;
+}
+
+const CLOCK_PATTERN = /^(\d{1,2})[:.](\d{2})$/;
+
+export const formatTimeOfDay = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+};
+
+// "HH:MM" or "HH:MM-HH:MM"
+export const formatTimeRange = (timestamp: number, endTime?: number): string => {
+  return endTime !== undefined ? `${formatTimeOfDay(timestamp)}-${formatTimeOfDay(endTime)}` : formatTimeOfDay(timestamp);
+};
+
+// "HH:MM" today, or yesterday if that would be in the future
+export const parseTimeOfDay = (text: string, now: number): number | null => {
+  const match = text.trim().match(CLOCK_PATTERN);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const mins = Number(match[2]);
+  if (hours > 23 || mins > 59) return null;
+
+  const date = new Date(now);
+  date.setHours(hours, mins, 0, 0);
+  if (date.getTime() > now) date.setDate(date.getDate() - 1);
+  return date.getTime();
+};
+
+// "HH:MM", or "HH:MM-HH:MM" for a drink sipped over a while. An end before
+// the start is taken to be after midnight.
+export const parseTimeRange = (text: string, now: number): TimeRange | null => {
+  const [startText, endText, ...rest] = text.split(/\s*[-–]\s*|\s+to\s+/i);
+  if (rest.length > 0) return null;
+
+  const timestamp = parseTimeOfDay(startText, now);
+  if (timestamp === null) return null;
+  if (endText === undefined) return { timestamp };
+
+  const match = endText.trim().match(CLOCK_PATTERN);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+
+  const end = new Date(timestamp);
+  end.setHours(Number(match[1]), Number(match[2]), 0, 0);
+  if (end.getTime() <= timestamp) end.setDate(end.getDate() + 1);
+  return { timestamp, endTime: end.getTime() };
+};
+
+// "HH:MM" for something coming up: today, unless that was more than half a
+// day ago, in which case tomorrow
+export const parseUpcomingTimeOfDay = (text: string, now: number): number | null => {
+  const match = text.trim().match(CLOCK_PATTERN);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const mins = Number(match[2]);
+  if (hours > 23 || mins > 59) return null;
+
+  const date = new Date(now);
+  date.setHours(hours, mins, 0, 0);
+  if (now - date.getTime() > 12 * 60 * 60 * 1000) date.setDate(date.getDate() + 1);
+  return date.getTime();
+};
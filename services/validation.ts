@@ -0,0 +1,218 @@
+import { Drink, FoodState, ParseConfidence, ParsedDrink } from '../types';
+import { BEVERAGE_CATEGORIES, CatalogueEntry, CatalogueServe } from './beverageCatalogue';
+import { OpenBottle } from './openBottles';
+import { Recipe, RecipeIngredient } from './recipes';
+import { sanitizeProfile } from './profile';
+import { Session } from './sessions';
+import { gramsOfAlcohol } from './standardDrinks';
+
+// Runtime checks for records read back from storage (or anywhere else we
+// don't control). Each returns a clean copy, or null if the record can't be
+// salvaged.
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+export const isFoodState = (value: unknown): value is FoodState =>
+  value === 'empty' || value === 'snack' || value === 'meal';
+
+// A share of a serve that isn't the whole thing
+export const isPartialPortion = (value: unknown): value is number =>
+  isFiniteNumber(value) && value > 0 && value < 1;
+
+export const validateDrink = (raw: unknown): Drink | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const d = raw as Record<string, unknown>;
+
+  const id = typeof d.id === 'number' ? d.id.toString() : d.id;
+  if (typeof id !== 'string' || id.length === 0) return null;
+  if (typeof d.name !== 'string') return null;
+  if (!isFiniteNumber(d.volumeMl) || d.volumeMl < 0) return null;
+  if (!isFiniteNumber(d.abv) || d.abv < 0 || d.abv > 100) return null;
+  if (!isFiniteNumber(d.timestamp) || d.timestamp <= 0) return null;
+
+  const portion = isPartialPortion(d.portion) ? d.portion : undefined;
+
+  // Grams can always be recovered from volume, ABV and how much was drunk
+  const alcoholGrams = isFiniteNumber(d.alcoholGrams) && d.alcoholGrams >= 0
+    ? d.alcoholGrams
+    : gramsOfAlcohol(d.volumeMl, d.abv) * (portion ?? 1);
+
+  const drink: Drink = {
+    id,
+    name: d.name,
+    volumeMl: d.volumeMl,
+    abv: d.abv,
+    alcoholGrams,
+    timestamp: d.timestamp,
+  };
+  if (isFiniteNumber(d.endTime) && d.endTime > d.timestamp) drink.endTime = d.endTime;
+  if (portion !== undefined) drink.portion = portion;
+  if (isFoodState(d.food)) drink.food = d.food;
+  if (typeof d.notes === 'string' && d.notes.trim().length > 0) drink.notes = d.notes.trim();
+
+  return drink;
+};
+
+export const validateSession = (raw: unknown): Session | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const s = raw as Record<string, unknown>;
+
+  if (typeof s.id !== 'string' || s.id.length === 0) return null;
+  if (!Array.isArray(s.drinks)) return null;
+
+  const drinks = s.drinks.map(validateDrink).filter((d): d is Drink => d !== null);
+  if (drinks.length === 0) return null;
+
+  const firstDrink = Math.min(...drinks.map(d => d.timestamp));
+  const startTime = isFiniteNumber(s.startTime) ? s.startTime : firstDrink;
+  const endTime = isFiniteNumber(s.endTime) && s.endTime >= startTime ? s.endTime : startTime;
+
+  return {
+    id: s.id,
+    startTime,
+    endTime,
+    drinks,
+    profile: sanitizeProfile(s.profile),
+  };
+};
+
+export const validateOpenBottle = (raw: unknown): OpenBottle | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const b = raw as Record<string, unknown>;
+
+  if (typeof b.id !== 'string' || b.id.length === 0) return null;
+  if (typeof b.name !== 'string' || b.name.trim().length === 0) return null;
+  if (!isFiniteNumber(b.abv) || b.abv <= 0 || b.abv > 100) return null;
+  if (!isFiniteNumber(b.volumeMl) || b.volumeMl <= 0) return null;
+  if (!isFiniteNumber(b.openedAt) || b.openedAt <= 0) return null;
+
+  const pouredMl = isFiniteNumber(b.pouredMl) ? Math.max(0, Math.min(b.pouredMl, b.volumeMl)) : 0;
+
+  return { id: b.id, name: b.name.trim(), abv: b.abv, volumeMl: b.volumeMl, pouredMl, openedAt: b.openedAt };
+};
+
+const validateServe = (raw: unknown): CatalogueServe | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const s = raw as Record<string, unknown>;
+
+  if (typeof s.label !== 'string' || s.label.length === 0) return null;
+  if (!isFiniteNumber(s.volumeMl) || s.volumeMl <= 0) return null;
+  return { label: s.label, volumeMl: s.volumeMl };
+};
+
+// User-added catalogue entries
+export const validateCatalogueEntry = (raw: unknown): CatalogueEntry | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const e = raw as Record<string, unknown>;
+
+  if (typeof e.id !== 'string' || e.id.length === 0) return null;
+  if (typeof e.name !== 'string' || e.name.trim().length === 0) return null;
+  if (!BEVERAGE_CATEGORIES.some(c => c.value === e.category)) return null;
+  if (!isFiniteNumber(e.abv) || e.abv <= 0 || e.abv > 100) return null;
+
+  const serves = (Array.isArray(e.serves) ? e.serves : [])
+    .map(validateServe)
+    .filter((s): s is CatalogueServe => s !== null);
+  if (serves.length === 0) return null;
+
+  return {
+    id: e.id,
+    name: e.name.trim(),
+    category: e.category as CatalogueEntry['category'],
+    abv: e.abv,
+    serves,
+    aliases: (Array.isArray(e.aliases) ? e.aliases : []).filter((a): a is string => typeof a === 'string'),
+    custom: true,
+  };
+};
+
+const validateIngredient = (raw: unknown): RecipeIngredient | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const i = raw as Record<string, unknown>;
+
+  if (typeof i.name !== 'string' || i.name.trim().length === 0) return null;
+  if (!isFiniteNumber(i.volumeMl) || i.volumeMl <= 0) return null;
+  if (!isFiniteNumber(i.abv) || i.abv < 0 || i.abv > 100) return null;
+  return { name: i.name.trim(), volumeMl: i.volumeMl, abv: i.abv };
+};
+
+// User-saved mixed drink recipes
+export const validateRecipe = (raw: unknown): Recipe | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+
+  if (typeof r.id !== 'string' || r.id.length === 0) return null;
+  if (typeof r.name !== 'string' || r.name.trim().length === 0) return null;
+
+  const ingredients = (Array.isArray(r.ingredients) ? r.ingredients : [])
+    .map(validateIngredient)
+    .filter((i): i is RecipeIngredient => i !== null);
+  if (ingredients.length === 0) return null;
+
+  return { id: r.id, name: r.name.trim(), ingredients };
+};
+
+// Most a single drink can hold, whether parsed or entered by hand
+export const MAX_DRINK_VOLUME_ML = 3000;
+
+export const isPlausibleDrink = (volumeMl: number, abv: number): boolean =>
+  volumeMl > 0 && volumeMl <= MAX_DRINK_VOLUME_ML && abv > 0 && abv <= 100;
+
+// Bounds for drinks coming back from a parser. Anything past these is a
+// misread rather than a real serve.
+const PARSED_LIMITS = {
+  maxNameLength: 60,
+  maxVolumeMl: MAX_DRINK_VOLUME_ML,
+  maxShotMl: 90,
+  shotMl: 30,
+  maxAssumptions: 5,
+};
+
+const CONFIDENCE_LEVELS: ParseConfidence[] = ['high', 'medium', 'low'];
+
+// Models sometimes return numbers as strings ("425", "4.9%")
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return parseFloat(value);
+  return NaN;
+};
+
+// Checks one parser result, clamping values that are wrong but salvageable
+// and noting each fix as an assumption. Returns null if it can't be used.
+export const validateParsedDrink = (raw: unknown): ParsedDrink | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const d = raw as Record<string, unknown>;
+
+  const name = typeof d.name === 'string' ? d.name.trim().slice(0, PARSED_LIMITS.maxNameLength) : '';
+  let volumeMl = toNumber(d.volumeMl);
+  const abv = toNumber(d.abv);
+  if (!name || !Number.isFinite(volumeMl) || volumeMl <= 0) return null;
+  if (!Number.isFinite(abv) || abv <= 0 || abv > 100) return null;
+
+  const assumptions = (Array.isArray(d.assumptions) ? d.assumptions : [])
+    .filter((a): a is string => typeof a === 'string' && a.trim().length > 0)
+    .map(a => a.trim())
+    .slice(0, PARSED_LIMITS.maxAssumptions);
+  let confidence: ParseConfidence = CONFIDENCE_LEVELS.includes(d.confidence as ParseConfidence)
+    ? d.confidence as ParseConfidence
+    : 'medium';
+
+  if (/\b(shot|nip|shooter)s?\b/i.test(name) && volumeMl > PARSED_LIMITS.maxShotMl) {
+    assumptions.push(`${Math.round(volumeMl)} ml is too big for a shot, so assumed ${PARSED_LIMITS.shotMl} ml`);
+    volumeMl = PARSED_LIMITS.shotMl;
+    confidence = 'low';
+  } else if (volumeMl > PARSED_LIMITS.maxVolumeMl) {
+    assumptions.push(`${Math.round(volumeMl)} ml is more than one serve, so capped at ${PARSED_LIMITS.maxVolumeMl} ml`);
+    volumeMl = PARSED_LIMITS.maxVolumeMl;
+    confidence = 'low';
+  }
+
+  return {
+    name,
+    volumeMl: Math.round(volumeMl),
+    abv: Math.round(abv * 10) / 10,
+    confidence,
+    assumptions,
+  };
+};
@@ -3,17 +3,85 @@ export interface Drink {
   name: string;
   volumeMl: number;
   abv: number;
-  standardDrinks: number;
+  // Grams of pure alcohol. Converted to standard drinks only for display.
+  alcoholGrams: number;
+  // When the drink was started, or had in one go if there's no endTime
   timestamp: number;
+  // When the last of it was finished, for drinks sipped over a while
+  endTime?: number;
+  // Share of the serve actually drunk, above 0 and below 1. Missing means
+  // all of it; alcoholGrams already only counts what was drunk.
+  portion?: number;
+  // What was in the stomach when this drink was had. Older drinks may not have it.
+  food?: FoodState;
+  notes?: string;
+}
+
+// The parts of a logged drink the user can correct. endTime is only touched
+// when it's given (null clears it); otherwise a new timestamp moves the whole
+// drink.
+export interface DrinkChanges {
+  name?: string;
+  volumeMl?: number;
+  abv?: number;
+  timestamp?: number;
+  endTime?: number | null;
+  notes?: string;
+}
+
+export type ParseConfidence = 'high' | 'medium' | 'low';
+
+// A drink recognised from a free-text description, before it's logged
+export interface ParsedDrink {
+  name: string;
+  volumeMl: number;
+  abv: number;
+  confidence: ParseConfidence;
+  // Anything the parser had to guess, e.g. "Assumed a schooner (425 ml)"
+  assumptions: string[];
 }
 
 export enum CalculationMode {
   MANUAL = 'MANUAL',
+  MIXED = 'MIXED',
   AI = 'AI'
 }
 
 export type Gender = 'male' | 'female';
 
+export type FoodState = 'empty' | 'snack' | 'meal';
+
+export const FOOD_STATES: { value: FoodState; label: string }[] = [
+  { value: 'empty', label: 'Empty' },
+  { value: 'snack', label: 'Snack' },
+  { value: 'meal', label: 'Full Meal' },
+];
+
+// Everything about a new drink beyond what it is
+export interface NewDrinkOptions {
+  // Defaults to now
+  timestamp?: number;
+  endTime?: number;
+  portion?: number;
+}
+
+export const DRINK_PORTIONS: { value: number; label: string }[] = [
+  { value: 1, label: 'All' },
+  { value: 0.75, label: '¾' },
+  { value: 0.5, label: '½' },
+  { value: 1 / 3, label: '⅓' },
+  { value: 0.25, label: '¼' },
+];
+
+// How long a drink took to finish. 0 means it was had in one go.
+export const DRINKING_DURATIONS: { minutes: number; label: string }[] = [
+  { minutes: 0, label: 'In one go' },
+  { minutes: 15, label: '15 min' },
+  { minutes: 30, label: '30 min' },
+  { minutes: 60, label: '1 hr' },
+  { minutes: 120, label: '2 hr' },
+];
+
 export const COMMON_SIZES = [
   { label: 'Nip/Shot', volume: 30 },
   { label: 'Small Wine', volume: 100 },